@@ -1,45 +1,29 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ActivityIndicator, Dimensions, NativeScrollEvent, NativeSyntheticEvent, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
-const SCREEN_WIDTH = Dimensions.get('window').width;
-const DAY_BUTTON_WIDTH = (SCREEN_WIDTH - 32 - 32) / 5.5; // 5 días completos + vistazo de otro
-const DAY_BUTTON_GAP = 8;
-
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useEditions } from '@/hooks/use-editions';
+import { useFavorites } from '@/hooks/use-favorites';
+import { useProcessionRoutes } from '@/hooks/use-procession-route';
 import { useProcessions } from '@/hooks/use-processions';
+import { findDayConflicts, type ProcessionConflict } from '@/services/conflicts';
+import { shareProcession } from '@/services/deep-links';
+import { getCurrentHolyWeekYear, getHolyDayIndex, getHolyWeek } from '@/services/holy-week';
+import { compareByDeparture, getEffectiveStatus } from '@/services/procession-schedule';
+import { formatRouteProgress, getProcessionProgress } from '@/services/route-progress';
 import type { Procession } from '@/types/data';
 
-// Mapeo de días de la semana con días de Semana Santa
-const HOLY_WEEK_DAYS = [
-  { date: 0, dayName: 'Domingo 29', holyDay: 'Domingo de Ramos' },
-  { date: 1, dayName: 'Lunes 30', holyDay: 'Lunes Santo' },
-  { date: 2, dayName: 'Martes 31', holyDay: 'Martes Santo' },
-  { date: 3, dayName: 'Miércoles 01', holyDay: 'Miércoles Santo' },
-  { date: 4, dayName: 'Jueves 02', holyDay: 'Jueves Santo' },
-  { date: 5, dayName: 'Viernes 03', holyDay: 'Viernes Santo' },
-  { date: 6, dayName: 'Sábado 04', holyDay: 'Sábado Santo' },
-  { date: 7, dayName: 'Domingo 05', holyDay: 'Domingo de Resurrección' },
-];
-
-// Orden de días para ordenar procesiones
-const dayOrder: { [key: string]: number } = {
-  'Domingo de Ramos': 0,
-  'Lunes Santo': 1,
-  'Martes Santo': 2,
-  'Miércoles Santo': 3,
-  'Jueves Santo': 4,
-  'Viernes Santo': 5,
-  'Sábado Santo': 6,
-  'Domingo de Resurrección': 7,
-};
+const SCREEN_WIDTH = Dimensions.get('window').width;
+const DAY_BUTTON_WIDTH = (SCREEN_WIDTH - 32 - 32) / 5.5; // 5 días completos + vistazo de otro
+const DAY_BUTTON_GAP = 8;
 
 const getProcessionsByDay = (allProcessions: Procession[]) => {
+  // Por día y, dentro del día, por hora real de salida (las de madrugada van al final)
   const sorted = [...allProcessions].sort((a, b) => {
-    const orderA = dayOrder[a.day] ?? 99;
-    const orderB = dayOrder[b.day] ?? 99;
-    return orderA - orderB;
+    return getHolyDayIndex(a.day) - getHolyDayIndex(b.day) || compareByDeparture(a, b);
   });
 
   const grouped: { [key: string]: Procession[] } = {};
@@ -63,12 +47,55 @@ export default function CalendarioScreen() {
   const sectionPositions = useRef<number[]>([]);
   const isUserScrolling = useRef(true);
 
+  // Día pedido por un enlace (/day/jueves-santo); se salta a él cuando su sección tiene posición
+  const { day: requestedDay } = useLocalSearchParams<{ day?: string }>();
+  const pendingDayIndex = useRef<number | null>(null);
+
+  // Ediciones: la actual se sigue en directo, las pasadas solo se consultan
+  const { editions, currentEdition } = useEditions();
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const editionYear = selectedYear ?? currentEdition?.year;
+  const isPastEdition = editionYear !== undefined && editionYear !== currentEdition?.year;
+  const editionFilters = useMemo(
+    () => (isPastEdition ? { editionYear } : undefined),
+    [isPastEdition, editionYear]
+  );
+
   // Obtener datos de procesiones
-  const { processions, isLoading } = useProcessions();
-  const processionsByDay = getProcessionsByDay(processions);
+  const { processions, isLoading } = useProcessions(editionFilters);
+
+  // Favoritas: fijadas arriba y, si se pide, como filtro de todo el calendario
+  const { isStarred, toggleStar, filterFavorites } = useFavorites();
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const favoriteProcessions = useMemo(
+    () => filterFavorites(processions).sort(compareByDeparture),
+    [filterFavorites, processions]
+  );
+  const processionsByDay = getProcessionsByDay(favoritesOnly ? favoriteProcessions : processions);
+
+  // Rutas de todas las procesiones: por dónde van y dónde coinciden con otras.
+  // Solo las ya guardadas en caché, para no pedir al servidor la edición entera
+  const { routes } = useProcessionRoutes(processions, { cachedOnly: true });
+
+  // Cruces y calles compartidas entre cortejos del mismo día, por procesión
+  const conflictsByProcession = useMemo(() => {
+    const byProcession: { [processionId: string]: ProcessionConflict[] } = {};
+    Object.values(getProcessionsByDay(processions)).forEach(dayProcessions => {
+      findDayConflicts(dayProcessions, routes).forEach(conflict => {
+        conflict.processionIds.forEach(id => {
+          byProcession[id] = [...(byProcession[id] ?? []), conflict];
+        });
+      });
+    });
+    return byProcession;
+  }, [processions, routes]);
+
+  // Fechas de la edición mostrada, calculadas a partir de la Pascua
+  const holyWeekYear = editionYear ?? getCurrentHolyWeekYear();
+  const holyWeekDays = useMemo(() => getHolyWeek(holyWeekYear), [holyWeekYear]);
 
   // Obtener todos los días que tienen procesiones, ordenados
-  const allDaysWithProcessions = HOLY_WEEK_DAYS.filter(day => {
+  const allDaysWithProcessions = holyWeekDays.filter(day => {
     return processionsByDay[day.holyDay] && processionsByDay[day.holyDay].length > 0;
   });
 
@@ -141,7 +168,27 @@ export default function CalendarioScreen() {
   // Guardar posición de una sección
   const handleSectionLayout = useCallback((index: number, y: number) => {
     sectionPositions.current[index] = y;
-  }, []);
+    if (pendingDayIndex.current === index) {
+      pendingDayIndex.current = null;
+      handleDayPress(index);
+    }
+  }, [handleDayPress]);
+
+  // Saltar al día del enlace una vez cargadas las procesiones
+  const requestedDayIndex = requestedDay
+    ? allDaysWithProcessions.findIndex(day => day.holyDay === requestedDay)
+    : -1;
+  useEffect(() => {
+    if (!requestedDay || isLoading) return;
+    router.setParams({ day: undefined });
+    if (requestedDayIndex === -1) return;
+
+    if (sectionPositions.current[requestedDayIndex] !== undefined) {
+      handleDayPress(requestedDayIndex);
+    } else {
+      pendingDayIndex.current = requestedDayIndex;
+    }
+  }, [requestedDay, requestedDayIndex, isLoading, handleDayPress]);
 
   // Mostrar estado de carga
   if (isLoading) {
@@ -157,6 +204,52 @@ export default function CalendarioScreen() {
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       {/* Header con calendario semanal */}
       <View style={[styles.header, { paddingTop: insets.top + 16, borderBottomColor: colors.cardBorder }]}>
+        {/* Selector de edición (cuando hay años anteriores guardados) y filtro de favoritas */}
+        <View style={styles.editionRow}>
+          {editions.length > 1 && editions.map(edition => {
+            const isSelected = edition.year === editionYear;
+            return (
+              <TouchableOpacity
+                key={edition.year}
+                style={[
+                  styles.editionChip,
+                  { borderColor: isSelected ? colors.primary : colors.cardBorder },
+                  isSelected && { backgroundColor: colors.primary },
+                ]}
+                onPress={() => {
+                  setSelectedYear(edition.year === currentEdition?.year ? null : edition.year);
+                  setSelectedDayIndex(0);
+                  sectionPositions.current = [];
+                  scrollViewRef.current?.scrollTo({ y: 0, animated: false });
+                }}
+              >
+                <Text style={[styles.editionText, { color: isSelected ? '#FFFFFF' : colors.text }]}>
+                  {edition.year}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+          {isPastEdition && (
+            <Text style={[styles.editionNote, { color: colors.icon }]}>Edición pasada · solo consulta</Text>
+          )}
+          <TouchableOpacity
+            style={[
+              styles.editionChip,
+              { borderColor: favoritesOnly ? colors.secondary : colors.cardBorder },
+              favoritesOnly && { backgroundColor: colors.secondary },
+            ]}
+            onPress={() => {
+              setFavoritesOnly(!favoritesOnly);
+              setSelectedDayIndex(0);
+              sectionPositions.current = [];
+              scrollViewRef.current?.scrollTo({ y: 0, animated: false });
+            }}
+          >
+            <Text style={[styles.editionText, { color: favoritesOnly ? '#FFFFFF' : colors.text }]}>
+              ★ Favoritas
+            </Text>
+          </TouchableOpacity>
+        </View>
         <ScrollView
           ref={daysScrollViewRef}
           horizontal
@@ -166,20 +259,13 @@ export default function CalendarioScreen() {
           decelerationRate="fast"
         >
           {allDaysWithProcessions.map((day, index) => {
-            let dayAbbrev = '';
-            if (day.holyDay === 'Domingo de Ramos') {
-              dayAbbrev = 'Do';
-            } else if (day.holyDay === 'Domingo de Resurrección') {
-              dayAbbrev = 'Do';
-            } else {
-              dayAbbrev = day.holyDay.split(' ')[0].substring(0, 2);
-            }
-            const dayNumber = day.dayName.split(' ')[1];
+            const dayAbbrev = day.weekday.substring(0, 2);
+            const dayNumber = String(day.date.day).padStart(2, '0');
             const isSelected = selectedDayIndex === index;
             
             return (
               <TouchableOpacity
-                key={day.date}
+                key={day.isoDate}
                 style={[
                   styles.dayButton,
                   { width: DAY_BUTTON_WIDTH },
@@ -216,6 +302,26 @@ export default function CalendarioScreen() {
         onScroll={handleScroll}
         scrollEventThrottle={16}
       >
+        {/* Favoritas fijadas arriba */}
+        {!favoritesOnly && favoriteProcessions.length > 0 && (
+          <View style={[styles.pinnedSection, { backgroundColor: colors.cardBackground, borderColor: colors.secondary }]}>
+            <Text style={[styles.pinnedTitle, { color: colors.text }]}>★ Siguiendo</Text>
+            {favoriteProcessions.map(procession => (
+              <TouchableOpacity
+                key={procession.id}
+                style={styles.pinnedRow}
+                onPress={() => router.push({ pathname: '/procession/[id]', params: { id: procession.id } })}
+              >
+                <Text style={[styles.pinnedTime, { color: colors.primary }]}>{procession.departureTime}</Text>
+                <Text style={[styles.pinnedName, { color: colors.text }]} numberOfLines={1}>
+                  {procession.name}
+                </Text>
+                <Text style={[styles.pinnedDay, { color: colors.icon }]}>{procession.day}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {/* Mostrar todas las procesiones de todos los días */}
         {allDaysWithProcessions.map((dayInfo, dayIndex) => {
           const dayProcessions = processionsByDay[dayInfo.holyDay] || [];
@@ -237,8 +343,14 @@ export default function CalendarioScreen() {
 
               {/* Tarjetas de procesiones del día */}
               {dayProcessions.map((procession) => {
-                const isActive = procession.status === 'in_progress';
-                const isReturning = procession.status === 'returning';
+                // En ediciones pasadas no hay nada en directo; sin estado en directo, el que marca el horario
+                const status = getEffectiveStatus(procession);
+                const isActive = !isPastEdition && status === 'in_progress';
+                const isReturning = !isPastEdition && status === 'returning';
+                const progress = (isActive || isReturning) && routes[procession.id]
+                  ? getProcessionProgress(procession, routes[procession.id]).cruzDeGuia
+                  : null;
+                const conflicts = conflictsByProcession[procession.id] ?? [];
                 
                 return (
                   <TouchableOpacity
@@ -252,6 +364,7 @@ export default function CalendarioScreen() {
                         borderLeftColor: isActive ? '#4CAF50' : isReturning ? '#FF9800' : colors.cardBorder,
                       },
                     ]}
+                    onPress={() => router.push({ pathname: '/procession/[id]', params: { id: procession.id } })}
                     activeOpacity={0.7}
                   >
                     {/* Contenedor principal horizontal */}
@@ -300,8 +413,39 @@ export default function CalendarioScreen() {
                             </View>
                           )}
                         </View>
+
+                        {/* Por dónde va */}
+                        {progress && (
+                          <Text style={[styles.progressText, { color: colors.primary }]} numberOfLines={1}>
+                            {formatRouteProgress(progress)}
+                          </Text>
+                        )}
+
+                        {/* Coincidencias con otras hermandades */}
+                        {conflicts.map(conflict => {
+                          const otherId = conflict.processionIds.find(id => id !== procession.id);
+                          const other = dayProcessions.find(p => p.id === otherId);
+                          return (
+                            <Text key={conflict.id} style={[styles.conflictText, { color: '#E65100' }]} numberOfLines={1}>
+                              ⚠️ {other?.name ?? 'Otra hermandad'}
+                              {conflict.street ? ` · ${conflict.street}` : ''} · {conflict.startTime}–{conflict.endTime}
+                            </Text>
+                          );
+                        })}
                       </View>
 
+                      {/* Marcar como favorita */}
+                      <TouchableOpacity onPress={() => toggleStar(procession)} hitSlop={8}>
+                        <Text style={[styles.shareIcon, { color: isStarred(procession) ? colors.secondary : colors.icon }]}>
+                          {isStarred(procession) ? '★' : '☆'}
+                        </Text>
+                      </TouchableOpacity>
+
+                      {/* Compartir enlace a la procesión */}
+                      <TouchableOpacity onPress={() => shareProcession(procession)} hitSlop={8}>
+                        <Text style={[styles.shareIcon, { color: colors.icon }]}>↗</Text>
+                      </TouchableOpacity>
+
                       {/* Flecha de navegación */}
                       <View style={styles.arrowContainer}>
                         <Text style={[styles.arrowIcon, { color: colors.icon }]}>›</Text>
@@ -319,10 +463,12 @@ export default function CalendarioScreen() {
           <View style={styles.emptyState}>
             <Text style={styles.emptyIcon}>📅</Text>
             <Text style={[styles.emptyTitle, { color: colors.text }]}>
-              No hay procesiones programadas
+              {favoritesOnly ? 'Aún no tienes favoritas' : 'No hay procesiones programadas'}
             </Text>
             <Text style={[styles.emptyText, { color: colors.icon }]}>
-              Vuelve pronto para ver el calendario de procesiones
+              {favoritesOnly
+                ? 'Marca procesiones con ☆ o sigue hermandades para verlas aquí'
+                : 'Vuelve pronto para ver el calendario de procesiones'}
             </Text>
           </View>
         )}
@@ -340,6 +486,58 @@ const styles = StyleSheet.create({
     paddingBottom: 16,
     borderBottomWidth: 1,
   },
+  editionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  editionChip: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  editionText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  editionNote: {
+    fontSize: 12,
+  },
+  pinnedSection: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 24,
+    gap: 6,
+  },
+  pinnedTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    marginBottom: 2,
+  },
+  pinnedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 4,
+  },
+  pinnedTime: {
+    fontSize: 13,
+    fontWeight: '700',
+    minWidth: 44,
+  },
+  pinnedName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  pinnedDay: {
+    fontSize: 12,
+  },
   weekCalendarContainer: {
     flexDirection: 'row',
     gap: DAY_BUTTON_GAP,
@@ -461,6 +659,20 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: '700',
   },
+  progressText: {
+    fontSize: 11,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  conflictText: {
+    fontSize: 11,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  shareIcon: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
   arrowContainer: {
     paddingLeft: 4,
   },
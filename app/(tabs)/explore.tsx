@@ -1,112 +1,258 @@
-import { Image } from 'expo-image';
-import { Platform, StyleSheet } from 'react-native';
-
-import { Collapsible } from '@/components/ui/collapsible';
-import { ExternalLink } from '@/components/external-link';
-import ParallaxScrollView from '@/components/parallax-scroll-view';
-import { ThemedText } from '@/components/themed-text';
-import { ThemedView } from '@/components/themed-view';
-import { IconSymbol } from '@/components/ui/icon-symbol';
-import { Fonts } from '@/constants/theme';
-
-export default function TabTwoScreen() {
+import { router } from 'expo-router';
+import { useMemo, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { Colors } from '@/constants/theme';
+import { useBrotherhoods } from '@/hooks/use-brotherhoods';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useFavorites } from '@/hooks/use-favorites';
+import { useProcessions } from '@/hooks/use-processions';
+import { getHolyDayIndex } from '@/services/holy-week';
+import type { Brotherhood, Procession } from '@/types/data';
+
+const NO_PROCESSION_SECTION = 'Sin salida este año';
+
+// Para buscar sin tener en cuenta mayúsculas ni tildes ("cautivo" encuentra "Cautivo")
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const matchesSearch = (brotherhood: Brotherhood, query: string) => {
+  if (!query) return true;
+  return [brotherhood.name, brotherhood.shortName, brotherhood.sede, ...brotherhood.titulares]
+    .some(text => normalize(text).includes(query));
+};
+
+export default function HermandadesScreen() {
+  const colorScheme = useColorScheme() ?? 'light';
+  const colors = Colors[colorScheme];
+  const insets = useSafeAreaInsets();
+  const [search, setSearch] = useState('');
+
+  const { brotherhoods, isLoading } = useBrotherhoods();
+  const { isFollowed, toggleFollow } = useFavorites();
+  // Procesiones de la edición actual: dan el día de salida de cada hermandad
+  const { processions, isLoading: processionsLoading } = useProcessions();
+
+  const sections = useMemo(() => {
+    const processionByBrotherhood = new Map<string, Procession>();
+    processions.forEach(procession => processionByBrotherhood.set(procession.brotherhoodId, procession));
+
+    const query = normalize(search.trim());
+    const grouped = new Map<string, { brotherhood: Brotherhood; procession?: Procession }[]>();
+    brotherhoods
+      .filter(brotherhood => matchesSearch(brotherhood, query))
+      .forEach(brotherhood => {
+        const procession = processionByBrotherhood.get(brotherhood.id);
+        const day = procession?.day ?? NO_PROCESSION_SECTION;
+        grouped.set(day, [...(grouped.get(day) ?? []), { brotherhood, procession }]);
+      });
+
+    // Días en orden de la semana; las hermandades sin salida al final
+    return Array.from(grouped.entries())
+      .map(([day, items]) => ({ day, items }))
+      .sort((a, b) => getHolyDayIndex(a.day) - getHolyDayIndex(b.day));
+  }, [brotherhoods, processions, search]);
+
+  if (isLoading || processionsLoading) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background, justifyContent: 'center', alignItems: 'center' }]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={[styles.loadingText, { color: colors.text, marginTop: 16 }]}>Cargando hermandades...</Text>
+      </View>
+    );
+  }
+
   return (
-    <ParallaxScrollView
-      headerBackgroundColor={{ light: '#D0D0D0', dark: '#353636' }}
-      headerImage={
-        <IconSymbol
-          size={310}
-          color="#808080"
-          name="chevron.left.forwardslash.chevron.right"
-          style={styles.headerImage}
-        />
-      }>
-      <ThemedView style={styles.titleContainer}>
-        <ThemedText
-          type="title"
-          style={{
-            fontFamily: Fonts.rounded,
-          }}>
-          Explore
-        </ThemedText>
-      </ThemedView>
-      <ThemedText>This app includes example code to help you get started.</ThemedText>
-      <Collapsible title="File-based routing">
-        <ThemedText>
-          This app has two screens:{' '}
-          <ThemedText type="defaultSemiBold">app/(tabs)/index.tsx</ThemedText> and{' '}
-          <ThemedText type="defaultSemiBold">app/(tabs)/explore.tsx</ThemedText>
-        </ThemedText>
-        <ThemedText>
-          The layout file in <ThemedText type="defaultSemiBold">app/(tabs)/_layout.tsx</ThemedText>{' '}
-          sets up the tab navigator.
-        </ThemedText>
-        <ExternalLink href="https://docs.expo.dev/router/introduction">
-          <ThemedText type="link">Learn more</ThemedText>
-        </ExternalLink>
-      </Collapsible>
-      <Collapsible title="Android, iOS, and web support">
-        <ThemedText>
-          You can open this project on Android, iOS, and the web. To open the web version, press{' '}
-          <ThemedText type="defaultSemiBold">w</ThemedText> in the terminal running this project.
-        </ThemedText>
-      </Collapsible>
-      <Collapsible title="Images">
-        <ThemedText>
-          For static images, you can use the <ThemedText type="defaultSemiBold">@2x</ThemedText> and{' '}
-          <ThemedText type="defaultSemiBold">@3x</ThemedText> suffixes to provide files for
-          different screen densities
-        </ThemedText>
-        <Image
-          source={require('@/assets/images/react-logo.png')}
-          style={{ width: 100, height: 100, alignSelf: 'center' }}
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Cabecera con buscador */}
+      <View style={[styles.header, { paddingTop: insets.top + 16, borderBottomColor: colors.cardBorder }]}>
+        <Text style={[styles.title, { color: colors.text }]}>Hermandades</Text>
+        <TextInput
+          style={[styles.searchInput, { color: colors.text, borderColor: colors.cardBorder, backgroundColor: colors.cardBackground }]}
+          placeholder="Buscar por nombre, sede o titular"
+          placeholderTextColor={colors.tabIconDefault}
+          value={search}
+          onChangeText={setSearch}
+          autoCorrect={false}
+          clearButtonMode="while-editing"
         />
-        <ExternalLink href="https://reactnative.dev/docs/images">
-          <ThemedText type="link">Learn more</ThemedText>
-        </ExternalLink>
-      </Collapsible>
-      <Collapsible title="Light and dark mode components">
-        <ThemedText>
-          This template has light and dark mode support. The{' '}
-          <ThemedText type="defaultSemiBold">useColorScheme()</ThemedText> hook lets you inspect
-          what the user&apos;s current color scheme is, and so you can adjust UI colors accordingly.
-        </ThemedText>
-        <ExternalLink href="https://docs.expo.dev/develop/user-interface/color-themes/">
-          <ThemedText type="link">Learn more</ThemedText>
-        </ExternalLink>
-      </Collapsible>
-      <Collapsible title="Animations">
-        <ThemedText>
-          This template includes an example of an animated component. The{' '}
-          <ThemedText type="defaultSemiBold">components/HelloWave.tsx</ThemedText> component uses
-          the powerful{' '}
-          <ThemedText type="defaultSemiBold" style={{ fontFamily: Fonts.mono }}>
-            react-native-reanimated
-          </ThemedText>{' '}
-          library to create a waving hand animation.
-        </ThemedText>
-        {Platform.select({
-          ios: (
-            <ThemedText>
-              The <ThemedText type="defaultSemiBold">components/ParallaxScrollView.tsx</ThemedText>{' '}
-              component provides a parallax effect for the header image.
-            </ThemedText>
-          ),
-        })}
-      </Collapsible>
-    </ParallaxScrollView>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 90 }]}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {sections.map(section => (
+          <View key={section.day} style={styles.daySection}>
+            <Text style={[styles.dayTitle, { color: colors.text }]}>{section.day}</Text>
+
+            {section.items.map(({ brotherhood, procession }) => (
+              <TouchableOpacity
+                key={brotherhood.id}
+                style={[styles.brotherhoodCard, { backgroundColor: colors.cardBackground, borderColor: colors.cardBorder }]}
+                onPress={() => router.push({ pathname: '/hermandad/[id]', params: { id: brotherhood.id } })}
+                activeOpacity={0.7}
+              >
+                {/* Colores del hábito */}
+                <View style={styles.colorsColumn}>
+                  {brotherhood.colors.map(color => (
+                    <View
+                      key={color.name}
+                      style={[styles.colorSwatch, { backgroundColor: color.hex, borderColor: colors.cardBorder }]}
+                    />
+                  ))}
+                </View>
+
+                <View style={styles.infoContainer}>
+                  <Text style={[styles.shortName, { color: colors.text }]} numberOfLines={1}>
+                    {brotherhood.shortName}
+                  </Text>
+                  <Text style={[styles.fullName, { color: colors.icon }]} numberOfLines={1}>
+                    {brotherhood.name}
+                  </Text>
+                  <Text style={[styles.sede, { color: colors.icon }]} numberOfLines={1}>
+                    ⛪ {brotherhood.sede}
+                    {procession ? ` · ${procession.departureTime}` : ''}
+                  </Text>
+                </View>
+
+                {/* Seguir a la hermandad */}
+                <TouchableOpacity onPress={() => toggleFollow(brotherhood.id)} hitSlop={8}>
+                  <Text style={[styles.followIcon, { color: isFollowed(brotherhood.id) ? colors.secondary : colors.icon }]}>
+                    {isFollowed(brotherhood.id) ? '★' : '☆'}
+                  </Text>
+                </TouchableOpacity>
+
+                <Text style={[styles.arrowIcon, { color: colors.icon }]}>›</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ))}
+
+        {/* Sin resultados */}
+        {sections.length === 0 && (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyIcon}>🔍</Text>
+            <Text style={[styles.emptyTitle, { color: colors.text }]}>
+              {search ? 'Ninguna hermandad coincide' : 'No hay hermandades'}
+            </Text>
+            {search ? (
+              <Text style={[styles.emptyText, { color: colors.icon }]}>
+                Prueba con otro nombre, sede o titular
+              </Text>
+            ) : null}
+          </View>
+        )}
+      </ScrollView>
+    </View>
   );
 }
 
 const styles = StyleSheet.create({
-  headerImage: {
-    color: '#808080',
-    bottom: -90,
-    left: -35,
-    position: 'absolute',
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    gap: 12,
   },
-  titleContainer: {
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    letterSpacing: -0.5,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  daySection: {
+    marginBottom: 24,
+  },
+  dayTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    letterSpacing: -0.3,
+    marginBottom: 12,
+  },
+  brotherhoodCard: {
     flexDirection: 'row',
-    gap: 8,
+    alignItems: 'center',
+    gap: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 10,
+  },
+  colorsColumn: {
+    gap: 4,
+  },
+  colorSwatch: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  infoContainer: {
+    flex: 1,
+    gap: 2,
+  },
+  shortName: {
+    fontSize: 15,
+    fontWeight: '700',
+    letterSpacing: -0.2,
+  },
+  fullName: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  sede: {
+    fontSize: 11,
+    fontWeight: '500',
+    marginTop: 2,
+  },
+  followIcon: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  arrowIcon: {
+    fontSize: 24,
+    fontWeight: '300',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 40,
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  loadingText: {
+    fontSize: 16,
   },
 });
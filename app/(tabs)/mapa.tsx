@@ -1,12 +1,30 @@
-import { useEffect, useState } from 'react';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useEffect, useMemo, useState } from 'react';
 import { ActivityIndicator, Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
-import { OSMMap } from '@/components/osm-map';
+import { OSMMap, type MapMarker, type MapRoute } from '@/components/osm-map';
+import { PassingTimesPanel } from '@/components/passing-times-panel';
+import { TimeSlider } from '@/components/time-slider';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { useProcessionRoute } from '@/hooks/use-procession-route';
+import { useEditions } from '@/hooks/use-editions';
+import { useFavorites } from '@/hooks/use-favorites';
+import { useProcessionRoute, useProcessionRoutes } from '@/hooks/use-procession-route';
 import { useConfig, useProcessions } from '@/hooks/use-processions';
+import { useSavedSpots } from '@/hooks/use-saved-spots';
+import { useSpectatorRoute } from '@/hooks/use-spectator-route';
+import { useTilePreload } from '@/hooks/use-tile-preload';
+import { findDayConflicts } from '@/services/conflicts';
+import { getMapLink, shareLink } from '@/services/deep-links';
+import { getCurrentHolyWeekYear } from '@/services/holy-week';
+import type { MapCoordinate } from '@/services/map-bridge';
+import { formatClockTime, getDayTimeRange, getScheduledPositions, parseClockTime } from '@/services/pace-model';
+import { getOccupiedStreets } from '@/services/occupancy';
+import { getDayPassingTimes } from '@/services/passing-times';
+import { getEffectiveStatus, getProcessionMinute } from '@/services/procession-schedule';
+import { formatRouteProgress, getProcessionProgress, getRouteSections } from '@/services/route-progress';
+import { formatDistance } from '@/services/routing';
 import type { Procession } from '@/types/data';
 
 export default function ProcessionMapScreen() {
@@ -17,18 +35,41 @@ export default function ProcessionMapScreen() {
   // Get processions data from the new hook
   const { processions, isLoading: processionsLoading, getActiveProcession, getProcessionsByDay } = useProcessions();
   const { config, isLoading: configLoading } = useConfig();
+  const { currentEdition } = useEditions();
+  const { isFavorite } = useFavorites();
 
-  // Get the first active procession for display
-  const activeProcession = getActiveProcession() || processions[0];
+  // Offline tile cache: download Huelva tiles on first use
+  const { progress: preloadProgress, isPreloaded, isCheckingStatus, handleProgress } = useTilePreload();
 
-  // Get the current day processions
-  const currentDay = activeProcession?.day || '';
-  const dayProcessions = currentDay ? getProcessionsByDay(currentDay) : [];
-  
   // State for selected procession
   const [selectedProcession, setSelectedProcession] = useState<Procession | null>(null);
   const [showSelector, setShowSelector] = useState(false);
 
+  // Procession (and time, "HH:mm") asked for by another screen or a shared link
+  const { procession: requestedId, t: requestedTime } = useLocalSearchParams<{ procession?: string; t?: string }>();
+
+  // Get the first active procession for display
+  const activeProcession = getActiveProcession() || processions[0];
+
+  // Get the current day processions: the selected procession's day, else the active one's
+  const currentDay = (selectedProcession ?? activeProcession)?.day || '';
+  const dayProcessions = useMemo(
+    () => (currentDay ? getProcessionsByDay(currentDay) : []),
+    [currentDay, getProcessionsByDay]
+  );
+
+  // Spectator spot ("when does it pass by here?"): long-pressed on the map or a saved one
+  const { spots: savedSpots, saveSpot, removeSpot } = useSavedSpots();
+  const [spot, setSpot] = useState<(MapCoordinate & { name: string; savedId?: string }) | null>(null);
+  const [showSpots, setShowSpots] = useState(false);
+
+  // Time slider: when set, markers show where the schedule places each procession
+  const [simulatedMinute, setSimulatedMinute] = useState<number | null>(null);
+
+  // Walking directions to the spectator spot, around the cortejos
+  const { route: spectatorRoute, isLoading: directionsLoading, error: directionsError, requestRoute, clearRoute } =
+    useSpectatorRoute();
+
   // Update selected procession when data loads
   useEffect(() => {
     if (!selectedProcession && activeProcession) {
@@ -36,54 +77,175 @@ export default function ProcessionMapScreen() {
     }
   }, [activeProcession, selectedProcession]);
 
+  // Select the requested procession once loaded, then drop the param so it isn't applied again.
+  // Unknown ids (stale links) leave the map as it is.
+  useEffect(() => {
+    if (!requestedId || processionsLoading) return;
+    const requested = processions.find(proc => proc.id === requestedId);
+    if (requested) {
+      setSelectedProcession(requested);
+    } else {
+      console.warn(`Procession ${requestedId} from link not found`);
+    }
+    router.setParams({ procession: undefined });
+  }, [requestedId, processions, processionsLoading]);
+
   const procession = selectedProcession;
 
   // Fetch the real street-following route from OSRM for selected procession
-  const { routeCoordinates, distance, duration, isLoading } = useProcessionRoute(procession);
+  const { routeCoordinates, distance, duration, provider: routeProvider, isLoading } = useProcessionRoute(procession);
+
+  // Street-following routes for every procession of the day (cached after the first fetch)
+  const { routes: allRoutes } = useProcessionRoutes(dayProcessions);
+
+  // Route geometry of every procession of the day, for passing times
+  const dayRoutes = useMemo(
+    () => (procession && routeCoordinates.length > 0
+      ? { ...allRoutes, [procession.id]: routeCoordinates }
+      : allRoutes),
+    [procession, routeCoordinates, allRoutes]
+  );
+  const passingTimes = spot ? getDayPassingTimes(dayProcessions, dayRoutes, spot) : [];
+
+  // Where each procession on the street is along its route (by the schedule if there's no live status)
+  const isOnStreet = (proc: Procession) => {
+    const status = getEffectiveStatus(proc);
+    return status === 'in_progress' || status === 'returning';
+  };
+  const progressById = Object.fromEntries(
+    dayProcessions
+      .filter(isOnStreet)
+      .filter(proc => (dayRoutes[proc.id] ?? []).length > 1)
+      .map(proc => [proc.id, getProcessionProgress(proc, dayRoutes[proc.id])])
+  );
+  const progress = procession ? progressById[procession.id]?.cruzDeGuia ?? null : null;
+
+  const handleSaveSpot = async () => {
+    if (!spot) return;
+    const saved = await saveSpot({
+      name: `Mi sitio ${savedSpots.length + 1}`,
+      latitude: spot.latitude,
+      longitude: spot.longitude,
+    });
+    setSpot({ ...spot, name: saved.name, savedId: saved.id });
+  };
 
-  // Store all routes for the day
-  const [allRoutes, setAllRoutes] = useState<{ [key: string]: { latitude: number; longitude: number }[] }>({});
+  const dayRange = getDayTimeRange(dayProcessions);
 
-  // Load all routes for processions of the day
+  // A requested time opens the simulation there, once the requested procession's day is on the map
+  const dayStart = dayRange?.start;
+  const dayEnd = dayRange?.end;
   useEffect(() => {
-    const loadAllRoutes = async () => {
-      const routes: { [key: string]: { latitude: number; longitude: number }[] } = {};
-      
-      // For now, use the basic route coordinates from the data
-      // In a real scenario, we could load all from OSRM, but that would be too many API calls
-      dayProcessions.forEach(proc => {
-        routes[proc.id] = proc.route.map(point => ({
-          latitude: point.latitude,
-          longitude: point.longitude,
-        }));
-      });
-      
-      setAllRoutes(routes);
-    };
-    
-    loadAllRoutes();
-  }, [currentDay]);
+    if (!requestedTime || requestedId || dayStart === undefined || dayEnd === undefined) return;
+    router.setParams({ t: undefined });
 
-  // Prepare markers for the map (only for selected procession)
-  const markers = procession ? [
-    // Cruz de Guía marker (front of procession)
-    {
-      id: 'cruz-de-guia',
-      latitude: procession.cruzDeGuia.latitude,
-      longitude: procession.cruzDeGuia.longitude,
-      title: 'Cruz de Guía',
-      description: 'Inicio de la procesión',
-      type: 'cruz_de_guia' as const,
-    },
-    // Paso markers (each float)
-    ...procession.pasos.map((paso) => ({
-      id: paso.id,
-      latitude: paso.currentPosition.latitude,
-      longitude: paso.currentPosition.longitude,
-      title: paso.name,
-      description: paso.type === 'cristo' ? 'Paso de Cristo' : 'Paso de Virgen',
-      type: paso.type === 'cristo' ? 'paso_cristo' as const : 'paso_virgen' as const,
-    })),
+    const clockMinute = parseClockTime(requestedTime);
+    if (clockMinute === null) return;
+    // Times before the day's first departure are after midnight
+    const minute = clockMinute < dayStart ? clockMinute + 24 * 60 : clockMinute;
+    setSimulatedMinute(Math.min(Math.max(minute, dayStart), dayEnd));
+  }, [requestedTime, requestedId, dayStart, dayEnd]);
+
+  // Streets occupied now (live where possible), or at the simulated time
+  const requestDirections = () => {
+    if (!spot) return;
+
+    // Minutes on the day's own clock: after midnight they keep counting past 24h
+    const minuteOfDay = simulatedMinute ?? (dayProcessions[0] ? getProcessionMinute(dayProcessions[0]) : 0);
+
+    const occupied = getOccupiedStreets(dayProcessions, dayRoutes, minuteOfDay, simulatedMinute === null);
+    requestRoute(spot, occupied.map(street => street.coordinates));
+  };
+
+  const directionsStatus = directionsLoading
+    ? 'Calculando ruta a pie...'
+    : directionsError
+      ? `No se pudo calcular la ruta: ${directionsError}`
+      : spectatorRoute
+        ? `A pie: ${formatDistance(spectatorRoute.distance)}` +
+          (spectatorRoute.crossings.length > 0 ? ' · ⚠️ cruza un cortejo' : ' · sin cruzar cortejos')
+        : null;
+
+  const closeSpot = () => {
+    setSpot(null);
+    clearRoute();
+  };
+
+  const handleRemoveSpot = async () => {
+    if (!spot?.savedId) return;
+    await removeSpot(spot.savedId);
+    closeSpot();
+  };
+
+  // Streets where two cortejos of the day meet (only those at the simulated time, when simulating)
+  const dayConflicts = useMemo(() => findDayConflicts(dayProcessions, dayRoutes), [dayProcessions, dayRoutes]);
+  const visibleConflicts = simulatedMinute === null
+    ? dayConflicts
+    : dayConflicts.filter(c => c.startMinute <= simulatedMinute && simulatedMinute <= c.endMinute);
+  const processionName = (id: string) => dayProcessions.find(proc => proc.id === id)?.name ?? '';
+
+  // Share the map on the selected procession, at the simulated time if there is one
+  const shareMapMoment = () => {
+    if (!procession) return;
+    const time = simulatedMinute !== null ? formatClockTime(simulatedMinute) : undefined;
+    shareLink(
+      time ? `${procession.name} a las ${time}` : `${procession.name} en el mapa`,
+      getMapLink(procession.id, time)
+    );
+  };
+
+  const startSimulation = () => {
+    if (!dayRange) return;
+    closeSpot();
+    setSimulatedMinute(dayRange.start);
+  };
+
+  // Select a procession of the day from a tapped route or marker
+  const selectProcessionById = (processionId?: string) => {
+    const tapped = dayProcessions.find(proc => proc.id === processionId);
+    if (tapped) {
+      setSelectedProcession(tapped);
+    }
+  };
+
+  // Prepare markers for the map: Cruz de Guía and pasos of every procession of the day,
+  // Carrera Oficial only for the selected one. Ids are namespaced by procession.
+  // While simulating, positions come from the schedule and processions not on the street are hidden.
+  const markers: MapMarker[] = procession ? [
+    ...dayProcessions.flatMap((proc): MapMarker[] => {
+      const scheduled = simulatedMinute !== null
+        ? getScheduledPositions(proc, dayRoutes[proc.id] ?? [], simulatedMinute)
+        : null;
+      const cruzPosition = scheduled ? scheduled.cruzDeGuia : proc.cruzDeGuia;
+
+      return [
+        // Cruz de Guía marker (front of procession)
+        ...(cruzPosition ? [{
+          id: `${proc.id}:cruz-de-guia`,
+          groupId: proc.id,
+          latitude: cruzPosition.latitude,
+          longitude: cruzPosition.longitude,
+          title: 'Cruz de Guía',
+          description: isFavorite(proc) ? `★ ${proc.name}` : proc.name,
+          type: 'cruz_de_guia' as const,
+        }] : []),
+        // Paso markers (each float)
+        ...proc.pasos.flatMap((paso, index): MapMarker[] => {
+          const position = scheduled ? scheduled.pasos[index].coordinate : paso.currentPosition;
+          if (!position) return [];
+
+          return [{
+            id: `${proc.id}:${paso.id}`,
+            groupId: proc.id,
+            latitude: position.latitude,
+            longitude: position.longitude,
+            title: paso.name,
+            description: `${paso.type === 'cristo' ? 'Paso de Cristo' : 'Paso de Virgen'} · ${proc.name}`,
+            type: paso.type === 'cristo' ? 'paso_cristo' : 'paso_virgen',
+          }];
+        }),
+      ];
+    }),
     // Carrera Oficial markers
     {
       id: 'carrera-inicio',
@@ -91,7 +253,7 @@ export default function ProcessionMapScreen() {
       longitude: procession.carreraOficial.start.longitude,
       title: 'Carrera Oficial',
       description: 'Inicio',
-      type: 'carrera_oficial' as const,
+      type: 'carrera_oficial',
     },
     {
       id: 'carrera-fin',
@@ -99,32 +261,77 @@ export default function ProcessionMapScreen() {
       longitude: procession.carreraOficial.end.longitude,
       title: 'Carrera Oficial',
       description: 'Fin',
-      type: 'carrera_oficial' as const,
+      type: 'carrera_oficial',
     },
+    // Conflicts between cortejos
+    ...visibleConflicts.map((conflict): MapMarker => ({
+      id: `conflict:${conflict.id}`,
+      latitude: conflict.center.latitude,
+      longitude: conflict.center.longitude,
+      title: conflict.kind === 'shared_street' ? 'Calle compartida' : 'Cruce de cortejos',
+      description: `${conflict.processionIds.map(processionName).join(' y ')} · ${conflict.startTime}–${conflict.endTime}`,
+      type: 'conflicto',
+    })),
+    // Spectator spot
+    ...(spot ? [{
+      id: 'spectator-spot',
+      latitude: spot.latitude,
+      longitude: spot.longitude,
+      title: spot.name,
+      type: 'punto_espectador' as const,
+    }] : []),
   ] : [];
 
-  // Prepare all routes with colors
-  const mapRoutes = dayProcessions.map((proc, index) => {
+  // Prepare all routes with colors. Processions on the street are drawn in three
+  // pieces: walked (faded, dashed), cortejo (wide) and still ahead (normal).
+  // Favorites stand out from the other unselected routes.
+  const mapRoutes = dayProcessions.map((proc, index): MapRoute => {
     const isSelected = proc.id === selectedProcession?.id;
-    const routeCoords = proc.id === selectedProcession?.id && routeCoordinates.length > 0
-      ? routeCoordinates
-      : allRoutes[proc.id] || [];
+    const isFavoriteRoute = isFavorite(proc);
+    const routeCoords = dayRoutes[proc.id] || [];
     
     const brotherhoodColors = config?.brotherhoodColors || [];
     const darkRouteColors = config?.darkRouteColors || [];
+    const weight = isSelected ? 6 : isFavoriteRoute ? 5 : 4;
+    const opacity = isSelected ? 0.95 : isFavoriteRoute ? 0.8 : 0.5;
+
+    // Live progress doesn't apply to a simulated time
+    const sections = simulatedMinute === null && progressById[proc.id]
+      ? getRouteSections(routeCoords, progressById[proc.id])
+      : null;
     
     return {
+      id: proc.id,
       coordinates: routeCoords,
       color: isSelected 
         ? brotherhoodColors[index % brotherhoodColors.length] 
-        : darkRouteColors[index % darkRouteColors.length],
-      weight: isSelected ? 6 : 4,
-      opacity: isSelected ? 0.95 : 0.5,
+        : isFavoriteRoute
+          ? colors.secondary
+          : darkRouteColors[index % darkRouteColors.length],
+      weight,
+      opacity,
+      segments: sections ? [
+        { coordinates: sections.done, color: '#8B7E9B', opacity: opacity * 0.6, dashArray: '6 8' },
+        { coordinates: sections.remaining },
+        { coordinates: sections.cortejo, weight: weight + 6, opacity: 1 },
+      ] : undefined,
     };
   }).filter(route => route.coordinates.length > 0);
 
+  // Spectator walking directions: dotted, on top of the processions
+  if (spot && spectatorRoute) {
+    mapRoutes.push({
+      id: 'spectator-route',
+      coordinates: spectatorRoute.coordinates,
+      color: spectatorRoute.crossings.length > 0 ? '#E65100' : '#1565C0',
+      weight: 5,
+      opacity: 0.9,
+      segments: [{ coordinates: spectatorRoute.coordinates, dashArray: '1 10' }],
+    });
+  }
+
   // Show loading state
-  if (processionsLoading || configLoading || !procession || !config) {
+  if (processionsLoading || configLoading || isCheckingStatus || !procession || !config) {
     return (
       <View style={[styles.container, { backgroundColor: colors.background, justifyContent: 'center', alignItems: 'center' }]}>
         <ActivityIndicator size="large" color={colors.primary} />
@@ -144,6 +351,14 @@ export default function ProcessionMapScreen() {
         primaryColor={colors.primary}
         secondaryColor={colors.secondary}
         style={styles.map}
+        preloadTiles={!isPreloaded}
+        onPreloadProgress={handleProgress}
+        onRoutePress={(routeId) => selectProcessionById(routeId)}
+        onMarkerPress={(_markerId, groupId) => selectProcessionById(groupId)}
+        onLongPress={(coordinate) => {
+          clearRoute();
+          setSpot({ ...coordinate, name: 'Punto seleccionado' });
+        }}
       />
 
       {/* Loading indicator for route */}
@@ -154,10 +369,20 @@ export default function ProcessionMapScreen() {
         </View>
       )}
 
+      {/* Offline map download progress */}
+      {!isLoading && preloadProgress && !preloadProgress.isComplete && (
+        <View style={[styles.loadingOverlay, { backgroundColor: colors.mapOverlay }]}>
+          <ActivityIndicator size="small" color={colors.primary} />
+          <Text style={[styles.loadingText, { color: colors.text }]}>
+            Descargando mapa offline... {preloadProgress.percentage}%
+          </Text>
+        </View>
+      )}
+
       {/* Header Overlay */}
       <View style={[styles.headerOverlay, { paddingTop: insets.top + 8, backgroundColor: colors.mapOverlay }]}>
         <Text style={[styles.headerTitle, { color: colors.text }]}>Semana Santa</Text>
-        <Text style={[styles.headerSubtitle, { color: colors.primary }]}>Huelva 2026</Text>
+        <Text style={[styles.headerSubtitle, { color: colors.primary }]}>Huelva {currentEdition?.year ?? getCurrentHolyWeekYear()}</Text>
       </View>
 
       {/* Legend */}
@@ -188,31 +413,132 @@ export default function ProcessionMapScreen() {
         </View>
       </View>
 
+      {/* Passing times at the spectator's spot, in place of the procession card */}
+      {spot && (
+        <PassingTimesPanel
+          title={spot.name}
+          passingTimes={passingTimes}
+          isSaved={spot.savedId !== undefined}
+          onSave={handleSaveSpot}
+          onRemove={handleRemoveSpot}
+          onClose={closeSpot}
+          onDirections={requestDirections}
+          directionsStatus={directionsStatus}
+          style={[styles.spotPanel, { marginBottom: insets.bottom + 90 }]}
+        />
+      )}
+
+      {/* Time slider, in place of the procession card */}
+      {!spot && simulatedMinute !== null && dayRange && (
+        <TimeSlider
+          min={dayRange.start}
+          max={dayRange.end}
+          value={simulatedMinute}
+          onChange={setSimulatedMinute}
+          onClose={() => setSimulatedMinute(null)}
+          onShare={shareMapMoment}
+          style={[styles.spotPanel, { marginBottom: insets.bottom + 90 }]}
+        />
+      )}
+
       {/* Compact Procession Info Card */}
-      <View style={[styles.infoCard, { backgroundColor: colors.cardBackground, borderColor: colors.cardBorder, marginBottom: insets.bottom + 90 }]}>
-        {/* Selector Button */}
-        <TouchableOpacity 
-          style={[styles.selectorButton, { borderColor: colors.cardBorder }]}
-          onPress={() => setShowSelector(true)}
-        >
-          <View style={styles.selectorContent}>
-            <View style={styles.selectorLeft}>
-              <Text style={[styles.processionNameCompact, { color: colors.text }]}>{procession.name}</Text>
-              <Text style={[styles.brotherhoodCompact, { color: colors.icon }]}>
-                {procession.departureTime} • {procession.pasos.length} pasos
+      {!spot && simulatedMinute === null && (
+        <View style={[styles.infoCard, { backgroundColor: colors.cardBackground, borderColor: colors.cardBorder, marginBottom: insets.bottom + 90 }]}>
+          {/* Selector Button */}
+          <TouchableOpacity 
+            style={[styles.selectorButton, { borderColor: colors.cardBorder }]}
+            onPress={() => setShowSelector(true)}
+          >
+            <View style={styles.selectorContent}>
+              <View style={styles.selectorLeft}>
+                <Text style={[styles.processionNameCompact, { color: colors.text }]}>
+                  {isFavorite(procession) ? '★ ' : ''}{procession.name}
+                </Text>
+                <Text style={[styles.brotherhoodCompact, { color: colors.icon }]}>
+                  {procession.departureTime} • {procession.pasos.length} pasos
+                </Text>
+                {distance !== '' && (
+                  <Text style={[styles.routeSummary, { color: colors.icon }]}>
+                    {distance}
+                    {duration !== '' ? ` • ${duration} de recorrido` : ''}
+                    {routeProvider !== null && routeProvider !== 'straight_line' ? '' : ' • ruta aproximada'}
+                  </Text>
+                )}
+                {progress && (
+                  <Text style={[styles.routeSummary, { color: colors.primary }]}>
+                    {formatRouteProgress(progress)}
+                  </Text>
+                )}
+              </View>
+              <Text style={[styles.chevron, { color: colors.icon }]}>▼</Text>
+            </View>
+          </TouchableOpacity>
+
+          <View style={styles.cardFooter}>
+            {/* Status Badge */}
+            <View style={[styles.statusBadgeCompact, { backgroundColor: isOnStreet(procession) ? '#2E7D32' : colors.primary }]}>
+              <Text style={styles.statusTextCompact}>
+                {isOnStreet(procession) ? '● EN CALLE' : 'PRÓXIMA'}
               </Text>
             </View>
-            <Text style={[styles.chevron, { color: colors.icon }]}>▼</Text>
-          </View>
-        </TouchableOpacity>
 
-        {/* Status Badge */}
-        <View style={[styles.statusBadgeCompact, { backgroundColor: procession.status === 'in_progress' ? '#2E7D32' : colors.primary }]}>
-          <Text style={styles.statusTextCompact}>
-            {procession.status === 'in_progress' ? '● EN CALLE' : 'PRÓXIMA'}
-          </Text>
+            <View style={styles.cardActions}>
+              {dayRange && (
+                <TouchableOpacity onPress={startSimulation}>
+                  <Text style={[styles.spotsButton, { color: colors.primary }]}>🕒 Simular</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity onPress={() => setShowSpots(true)}>
+                <Text style={[styles.spotsButton, { color: colors.primary }]}>📍 Mis sitios</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={shareMapMoment}>
+                <Text style={[styles.spotsButton, { color: colors.primary }]}>↗ Compartir</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
         </View>
-      </View>
+      )}
+
+      {/* Saved Spots Modal */}
+      <Modal
+        visible={showSpots}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setShowSpots(false)}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={() => setShowSpots(false)}
+        >
+          <View style={[styles.selectorModal, { backgroundColor: colors.cardBackground, marginBottom: insets.bottom }]}>
+            <View style={[styles.modalHandle, { backgroundColor: colors.icon }]} />
+            <Text style={[styles.modalTitle, { color: colors.text }]}>Mis sitios</Text>
+
+            {savedSpots.length === 0 ? (
+              <Text style={[styles.procesionItemDetails, { color: colors.icon }]}>
+                Mantén pulsado el mapa para ver cuándo pasan las procesiones por ese punto y guardarlo.
+              </Text>
+            ) : (
+              <ScrollView style={styles.procesionList}>
+                {savedSpots.map(saved => (
+                  <TouchableOpacity
+                    key={saved.id}
+                    style={[styles.procesionItem, { borderColor: colors.cardBorder }]}
+                    onPress={() => {
+                      clearRoute();
+                      setSpot({ latitude: saved.latitude, longitude: saved.longitude, name: saved.name, savedId: saved.id });
+                      setShowSpots(false);
+                    }}
+                  >
+                    <Text style={[styles.procesionItemName, { color: colors.text }]}>📍 {saved.name}</Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
+          </View>
+        </TouchableOpacity>
+      </Modal>
 
       {/* Procession Selector Modal */}
       <Modal
@@ -246,7 +572,9 @@ export default function ProcessionMapScreen() {
                 >
                   <View style={[styles.colorIndicator, { backgroundColor: config.brotherhoodColors[index % config.brotherhoodColors.length] }]} />
                   <View style={styles.procesionInfo}>
-                    <Text style={[styles.procesionItemName, { color: colors.text }]}>{proc.name}</Text>
+                    <Text style={[styles.procesionItemName, { color: colors.text }]}>
+                      {isFavorite(proc) ? '★ ' : ''}{proc.name}
+                    </Text>
                     <Text style={[styles.procesionItemDetails, { color: colors.icon }]}>
                       {proc.brotherhood}
                     </Text>
@@ -376,16 +704,39 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 2,
   },
+  routeSummary: {
+    fontSize: 11,
+    marginTop: 2,
+  },
   chevron: {
     fontSize: 12,
     marginLeft: 8,
   },
+  cardFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
   statusBadgeCompact: {
     alignSelf: 'flex-start',
     paddingHorizontal: 10,
     paddingVertical: 4,
     borderRadius: 12,
-    marginTop: 8,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  spotsButton: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  spotPanel: {
+    position: 'absolute',
+    bottom: 0,
+    left: 16,
+    right: 16,
   },
   statusTextCompact: {
     color: '#FFFFFF',
@@ -0,0 +1,46 @@
+import { Link, Stack } from 'expo-router';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+
+// Enlaces a rutas que no existen (URLs mal copiadas, enlaces antiguos)
+export default function NotFoundScreen() {
+  const colorScheme = useColorScheme() ?? 'light';
+  const colors = Colors[colorScheme];
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <Stack.Screen options={{ title: 'No encontrado' }} />
+      <Text style={styles.icon}>🔍</Text>
+      <Text style={[styles.title, { color: colors.text }]}>Este enlace no lleva a ninguna parte</Text>
+      <Link href="/calendario" replace style={[styles.link, { color: colors.primary }]}>
+        Ir al calendario
+      </Link>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+  },
+  icon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  link: {
+    fontSize: 16,
+    fontWeight: '600',
+    paddingVertical: 12,
+  },
+});
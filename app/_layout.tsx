@@ -1,9 +1,12 @@
 import { DarkTheme, DefaultTheme, ThemeProvider as NavigationThemeProvider } from '@react-navigation/native';
 import { Stack } from 'expo-router';
+import { useEffect } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
 
+import { FavoritesProvider } from '@/contexts/favorites-context';
 import { ThemeProvider, useTheme } from '@/contexts/theme-context';
+import { startNotificationScheduling } from '@/services/notifications';
 
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -12,11 +15,18 @@ export const unstable_settings = {
 function RootNavigator() {
   const { colorScheme } = useTheme();
 
+  // Departure and "passing by your spot" alerts follow the procession data
+  useEffect(() => startNotificationScheduling(), []);
+
   return (
     <NavigationThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+        <Stack.Screen name="hermandad/[id]" options={{ title: 'Hermandad', headerBackTitle: 'Hermandades' }} />
+        <Stack.Screen name="procession/[id]" options={{ title: 'Procesión', headerBackTitle: 'Volver' }} />
+        {/* Deep links that only redirect into the tabs */}
+        <Stack.Screen name="day/[day]" options={{ headerShown: false }} />
+        <Stack.Screen name="map" options={{ headerShown: false }} />
       </Stack>
       <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
     </NavigationThemeProvider>
@@ -26,7 +36,9 @@ function RootNavigator() {
 export default function RootLayout() {
   return (
     <ThemeProvider>
-      <RootNavigator />
+      <FavoritesProvider>
+        <RootNavigator />
+      </FavoritesProvider>
     </ThemeProvider>
   );
 }
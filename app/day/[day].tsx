@@ -0,0 +1,16 @@
+import { Redirect, useLocalSearchParams } from 'expo-router';
+
+import { parseHolyDay } from '@/services/holy-week';
+
+// Enlace a un día (/day/jueves-santo): abre el calendario en ese día
+export default function DayLinkScreen() {
+  const { day } = useLocalSearchParams<{ day: string }>();
+  const holyDay = day ? parseHolyDay(day) : null;
+
+  if (!holyDay) {
+    console.warn(`Unknown day in link: ${day}`);
+    return <Redirect href="/calendario" />;
+  }
+
+  return <Redirect href={{ pathname: '/calendario', params: { day: holyDay } }} />;
+}
@@ -0,0 +1,233 @@
+import { router, Stack, useLocalSearchParams } from 'expo-router';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { Colors } from '@/constants/theme';
+import { useBrotherhood } from '@/hooks/use-brotherhoods';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useFavorites } from '@/hooks/use-favorites';
+import { getHolyWeek } from '@/services/holy-week';
+import { getEffectiveStatus, PROCESSION_STATUS_LABELS } from '@/services/procession-schedule';
+
+export default function HermandadScreen() {
+  const colorScheme = useColorScheme() ?? 'light';
+  const colors = Colors[colorScheme];
+  const insets = useSafeAreaInsets();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { brotherhood, procession, isLoading, error, notFound } = useBrotherhood(id);
+  const { isFollowed, toggleFollow } = useFavorites();
+
+  if (isLoading || !brotherhood) {
+    return (
+      <View style={[styles.container, styles.centered, { backgroundColor: colors.background }]}>
+        <Stack.Screen options={{ title: 'Hermandad' }} />
+        {error ? (
+          <Text style={[styles.emptyText, { color: colors.icon }]}>
+            {notFound ? 'No se encontró la hermandad' : 'No se pudo cargar la hermandad'}
+          </Text>
+        ) : (
+          <ActivityIndicator size="large" color={colors.primary} />
+        )}
+      </View>
+    );
+  }
+
+  // Fecha de salida de este año, a partir de la Pascua de su edición
+  const processionDay = procession
+    ? getHolyWeek(procession.editionYear).find(day => day.holyDay === procession.day)
+    : undefined;
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 32 }]}
+    >
+      <Stack.Screen options={{ title: brotherhood.shortName }} />
+
+      {/* Cabecera: nombre y colores */}
+      <View style={styles.titleBlock}>
+        <Text style={[styles.title, { color: colors.text }]}>{brotherhood.name}</Text>
+        <Text style={[styles.subtitle, { color: colors.icon }]}>
+          ⛪ {brotherhood.sede}
+          {brotherhood.foundedYear ? ` · Fundada en ${brotherhood.foundedYear}` : ''}
+        </Text>
+        <TouchableOpacity
+          style={[
+            styles.followButton,
+            { borderColor: colors.secondary },
+            isFollowed(brotherhood.id) && { backgroundColor: colors.secondary },
+          ]}
+          onPress={() => toggleFollow(brotherhood.id)}
+        >
+          <Text style={[styles.followText, { color: isFollowed(brotherhood.id) ? '#FFFFFF' : colors.text }]}>
+            {isFollowed(brotherhood.id) ? '★ Siguiendo' : '☆ Seguir'}
+          </Text>
+        </TouchableOpacity>
+        <View style={styles.colorsRow}>
+          {brotherhood.colors.map(color => (
+            <View key={color.name} style={styles.colorItem}>
+              <View style={[styles.colorSwatch, { backgroundColor: color.hex, borderColor: colors.cardBorder }]} />
+              <Text style={[styles.colorName, { color: colors.icon }]}>{color.name}</Text>
+            </View>
+          ))}
+        </View>
+      </View>
+
+      {/* Procesión de este año */}
+      <View style={[styles.card, { backgroundColor: colors.cardBackground, borderColor: colors.cardBorder }]}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>
+          {procession ? `Salida ${procession.editionYear}` : 'Salida'}
+        </Text>
+        {procession ? (
+          <>
+            <TouchableOpacity
+              onPress={() => router.push({ pathname: '/procession/[id]', params: { id: procession.id } })}
+            >
+              <Text style={[styles.processionName, { color: colors.primary }]}>{procession.name} ›</Text>
+            </TouchableOpacity>
+            <Text style={[styles.detailText, { color: colors.icon }]}>
+              {procession.day}
+              {processionDay ? ` · ${processionDay.dayName}` : ''}
+            </Text>
+            <Text style={[styles.detailText, { color: colors.icon }]}>
+              🕯 {procession.departureTime} · 🏠 {procession.returnTime} · {procession.parish}
+            </Text>
+            <View style={[styles.statusBadge, { backgroundColor: colors.primary }]}>
+              <Text style={styles.statusText}>{PROCESSION_STATUS_LABELS[getEffectiveStatus(procession)]}</Text>
+            </View>
+
+            <Text style={[styles.subsectionTitle, { color: colors.text }]}>Pasos</Text>
+            {procession.pasos.map(paso => (
+              <Text key={paso.id} style={[styles.listItem, { color: colors.text }]}>
+                {paso.type === 'virgen' ? '👑' : '✝'} {paso.name}
+              </Text>
+            ))}
+          </>
+        ) : (
+          <Text style={[styles.detailText, { color: colors.icon }]}>Este año no tiene salida procesional</Text>
+        )}
+      </View>
+
+      {/* Titulares */}
+      <View style={[styles.card, { backgroundColor: colors.cardBackground, borderColor: colors.cardBorder }]}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>Titulares</Text>
+        {brotherhood.titulares.map(titular => (
+          <Text key={titular} style={[styles.listItem, { color: colors.text }]}>• {titular}</Text>
+        ))}
+      </View>
+
+      {/* Historia */}
+      <View style={[styles.card, { backgroundColor: colors.cardBackground, borderColor: colors.cardBorder }]}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>Historia</Text>
+        <Text style={[styles.historyText, { color: colors.text }]}>{brotherhood.history}</Text>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  titleBlock: {
+    gap: 6,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  followButton: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  followText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  colorsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 4,
+  },
+  colorItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  colorSwatch: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 1,
+  },
+  colorName: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    gap: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 6,
+  },
+  subsectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 12,
+    marginBottom: 2,
+  },
+  processionName: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  detailText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    marginTop: 6,
+  },
+  statusText: {
+    color: '#FFFFFF',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  listItem: {
+    fontSize: 14,
+    lineHeight: 22,
+  },
+  historyText: {
+    fontSize: 14,
+    lineHeight: 21,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,9 @@
+import { Redirect, useLocalSearchParams } from 'expo-router';
+
+// Enlace al mapa (/map?procession=2&t=23:30): abre la pestaña del mapa con la procesión
+// seleccionada y, si trae hora, la simulación en ese momento
+export default function MapLinkScreen() {
+  const { procession, t } = useLocalSearchParams<{ procession?: string; t?: string }>();
+
+  return <Redirect href={{ pathname: '/mapa', params: { procession, t } }} />;
+}
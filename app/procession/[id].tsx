@@ -0,0 +1,369 @@
+import { router, Stack, useLocalSearchParams } from 'expo-router';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { OSMMap, type MapMarker } from '@/components/osm-map';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useEditions } from '@/hooks/use-editions';
+import { useFavorites } from '@/hooks/use-favorites';
+import { useNotifications } from '@/hooks/use-notifications';
+import { useProcessionRoute } from '@/hooks/use-procession-route';
+import { useProcession } from '@/hooks/use-processions';
+import { shareProcession } from '@/services/deep-links';
+import { getHolyWeek } from '@/services/holy-week';
+import { formatRoutePoint } from '@/services/itinerary';
+import { DEFAULT_QUIET_HOURS } from '@/services/notifications';
+import { getEffectiveStatus, PROCESSION_STATUS_LABELS } from '@/services/procession-schedule';
+import { formatRouteProgress, getProcessionProgress } from '@/services/route-progress';
+
+const STATUS_COLORS = {
+  not_started: '#5D2E8C',
+  in_progress: '#4CAF50',
+  returning: '#FF9800',
+  finished: '#8B7E9B',
+} as const;
+
+export default function ProcessionScreen() {
+  const colorScheme = useColorScheme() ?? 'light';
+  const colors = Colors[colorScheme];
+  const insets = useSafeAreaInsets();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { procession, isLoading, error, notFound } = useProcession(id);
+  const { currentEdition } = useEditions();
+  const { isStarred, toggleStar } = useFavorites();
+  const { settings: notificationSettings, isNotifying, toggleProcession, setQuietHours } = useNotifications();
+
+  // Recorrido por calles (de la caché de rutas si ya se calculó)
+  const { routeCoordinates, distance, duration } = useProcessionRoute(procession);
+
+  if (isLoading || !procession) {
+    return (
+      <View style={[styles.container, styles.centered, { backgroundColor: colors.background }]}>
+        <Stack.Screen options={{ title: 'Procesión' }} />
+        {error ? (
+          <>
+            <Text style={[styles.emptyText, { color: colors.icon }]}>
+              {notFound
+                ? 'Esta procesión no existe o el enlace ya no es válido'
+                : 'No se pudo cargar la procesión'}
+            </Text>
+            <TouchableOpacity
+              style={[styles.mapButton, { backgroundColor: colors.primary, marginTop: 16 }]}
+              onPress={() => router.replace('/calendario')}
+            >
+              <Text style={styles.mapButtonText}>Ir al calendario</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <ActivityIndicator size="large" color={colors.primary} />
+        )}
+      </View>
+    );
+  }
+
+  // Estado en directo; sin él, el que marca el horario
+  const isLive = procession.status === 'in_progress' || procession.status === 'returning';
+  const status = getEffectiveStatus(procession);
+  const progress = isLive && routeCoordinates.length > 1
+    ? getProcessionProgress(procession, routeCoordinates).cruzDeGuia
+    : null;
+
+  const isPastEdition = currentEdition !== null && procession.editionYear !== currentEdition.year;
+
+  const processionDay = getHolyWeek(procession.editionYear).find(day => day.holyDay === procession.day);
+
+  // Mini mapa: recorrido, Cruz de Guía, pasos y Carrera Oficial
+  const markers: MapMarker[] = [
+    {
+      id: 'cruz-de-guia',
+      latitude: procession.cruzDeGuia.latitude,
+      longitude: procession.cruzDeGuia.longitude,
+      title: 'Cruz de Guía',
+      type: 'cruz_de_guia',
+    },
+    ...procession.pasos.map((paso): MapMarker => ({
+      id: paso.id,
+      latitude: paso.currentPosition.latitude,
+      longitude: paso.currentPosition.longitude,
+      title: paso.name,
+      type: paso.type === 'cristo' ? 'paso_cristo' : 'paso_virgen',
+    })),
+    {
+      id: 'carrera-inicio',
+      latitude: procession.carreraOficial.start.latitude,
+      longitude: procession.carreraOficial.start.longitude,
+      title: 'Carrera Oficial',
+      description: 'Inicio',
+      type: 'carrera_oficial',
+    },
+  ];
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 32 }]}
+    >
+      <Stack.Screen
+        options={{
+          title: procession.name,
+          headerRight: () => (
+            <View style={styles.headerActions}>
+              <TouchableOpacity onPress={() => toggleStar(procession)}>
+                <Text style={[styles.headerAction, { color: isStarred(procession) ? colors.secondary : colors.primary }]}>
+                  {isStarred(procession) ? '★' : '☆'}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => shareProcession(procession)}>
+                <Text style={[styles.headerAction, { color: colors.primary }]}>Compartir</Text>
+              </TouchableOpacity>
+            </View>
+          ),
+        }}
+      />
+
+      {/* Cabecera: hermandad, día y estado */}
+      <View style={styles.titleBlock}>
+        <Text style={[styles.title, { color: colors.text }]}>{procession.name}</Text>
+        <TouchableOpacity
+          onPress={() => router.push({ pathname: '/hermandad/[id]', params: { id: procession.brotherhoodId } })}
+        >
+          <Text style={[styles.subtitle, { color: colors.primary }]}>{procession.brotherhood} ›</Text>
+        </TouchableOpacity>
+        <Text style={[styles.detailText, { color: colors.icon }]}>
+          {procession.day}
+          {processionDay ? ` · ${processionDay.dayName}` : ''} · {procession.parish}
+        </Text>
+        <View style={styles.statusRow}>
+          <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[status] }]}>
+            <Text style={styles.statusText}>{PROCESSION_STATUS_LABELS[status]}</Text>
+          </View>
+          <Text style={[styles.detailText, { color: colors.icon }]}>
+            🕯 {procession.departureTime} · 🏠 {procession.returnTime}
+          </Text>
+        </View>
+        {progress && (
+          <Text style={[styles.progressText, { color: colors.primary }]}>{formatRouteProgress(progress)}</Text>
+        )}
+      </View>
+
+      {/* Mini mapa del recorrido */}
+      <View style={[styles.mapCard, { borderColor: colors.cardBorder }]}>
+        <OSMMap
+          center={procession.cruzDeGuia}
+          zoom={15}
+          markers={markers}
+          route={routeCoordinates.length > 0 ? { id: procession.id, coordinates: routeCoordinates, color: colors.primary } : undefined}
+          primaryColor={colors.primary}
+          secondaryColor={colors.secondary}
+          style={styles.map}
+        />
+      </View>
+      <View style={styles.mapFooter}>
+        <Text style={[styles.detailText, { color: colors.icon }]}>
+          {distance}
+          {duration !== '' ? ` · ${duration} de recorrido` : ''}
+        </Text>
+        {/* El mapa solo sigue la edición actual */}
+        {!isPastEdition && (
+          <TouchableOpacity
+            style={[styles.mapButton, { backgroundColor: colors.primary }]}
+            onPress={() => router.push({ pathname: '/mapa', params: { procession: procession.id } })}
+          >
+            <Text style={styles.mapButtonText}>🗺 Ver en el mapa</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Avisos: salida y paso por los sitios guardados */}
+      <View style={[styles.card, { backgroundColor: colors.cardBackground, borderColor: colors.cardBorder }]}>
+        <View style={styles.cardHeader}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Avisos</Text>
+          <TouchableOpacity
+            style={[
+              styles.toggleButton,
+              { borderColor: colors.secondary },
+              isNotifying(procession.id) && { backgroundColor: colors.secondary },
+            ]}
+            onPress={() => toggleProcession(procession.id)}
+          >
+            <Text style={[styles.toggleText, { color: isNotifying(procession.id) ? '#FFFFFF' : colors.text }]}>
+              {isNotifying(procession.id) ? '🔔 Activados' : '🔕 Avisarme'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={[styles.detailText, { color: colors.icon }]}>
+          {notificationSettings.departureLeadMinutes} min antes de la salida y{' '}
+          {notificationSettings.approachLeadMinutes} min antes de pasar por tus sitios guardados en el mapa
+        </Text>
+        <TouchableOpacity
+          onPress={() => setQuietHours(notificationSettings.quietHours ? null : DEFAULT_QUIET_HOURS)}
+        >
+          <Text style={[styles.detailText, { color: colors.primary, marginTop: 6 }]}>
+            {notificationSettings.quietHours
+              ? `🌙 Sin avisos de ${notificationSettings.quietHours.start} a ${notificationSettings.quietHours.end} · Quitar`
+              : `🌙 Silenciar de ${DEFAULT_QUIET_HOURS.start} a ${DEFAULT_QUIET_HOURS.end}`}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Pasos */}
+      <View style={[styles.card, { backgroundColor: colors.cardBackground, borderColor: colors.cardBorder }]}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>Pasos</Text>
+        {procession.pasos.map(paso => (
+          <Text key={paso.id} style={[styles.listItem, { color: colors.text }]}>
+            {paso.type === 'virgen' ? '👑' : '✝'} {paso.name}
+          </Text>
+        ))}
+      </View>
+
+      {/* Itinerario completo */}
+      <View style={[styles.card, { backgroundColor: colors.cardBackground, borderColor: colors.cardBorder }]}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>Itinerario</Text>
+        {procession.route.map((point, index) => (
+          <Text
+            key={`${index}-${point.name}`}
+            style={[
+              styles.listItem,
+              { color: point.kind === 'calle' ? colors.icon : colors.text },
+              point.kind === 'carrera_oficial' && { fontWeight: '700' },
+            ]}
+          >
+            {formatRoutePoint(point)}
+          </Text>
+        ))}
+      </View>
+
+      {/* Descripción */}
+      <View style={[styles.card, { backgroundColor: colors.cardBackground, borderColor: colors.cardBorder }]}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>Sobre la procesión</Text>
+        <Text style={[styles.descriptionText, { color: colors.text }]}>{procession.description}</Text>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  titleBlock: {
+    gap: 6,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  statusText: {
+    color: '#FFFFFF',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  progressText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  mapCard: {
+    height: 220,
+    borderRadius: 16,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  map: {
+    flex: 1,
+  },
+  mapFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: -8,
+  },
+  mapButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 12,
+  },
+  mapButtonText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    gap: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  toggleButton: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginBottom: 6,
+  },
+  toggleText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 6,
+  },
+  detailText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  listItem: {
+    fontSize: 14,
+    lineHeight: 22,
+  },
+  descriptionText: {
+    fontSize: 14,
+    lineHeight: 21,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingHorizontal: 40,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  headerAction: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -1,20 +1,51 @@
+import { useCallback, useEffect, useImperativeHandle, useRef, useState, type Ref } from 'react';
 import { Platform, StyleSheet, View } from 'react-native';
-import { WebView } from 'react-native-webview';
+import { WebView, type WebViewMessageEvent } from 'react-native-webview';
 
-interface MapMarker {
+import { LEAFLET_CSS, LEAFLET_JS, MAP_CSS } from '@/assets/map/map-assets.generated';
+import { simplifyPolyline } from '@/services/geometry';
+import {
+  buildInjectedCommand,
+  diffPayloads,
+  generateMapBridgeJS,
+  parseMapEvent,
+  serializeForScript,
+  type MapBounds,
+  type MapCommand,
+  type MapCoordinate,
+  type MapEvent,
+  type MapMarkerPayload,
+  type MapRoutePayload,
+} from '@/services/map-bridge';
+import { encodePolyline, generatePolylineDecoderJS } from '@/services/polyline';
+import { TILE_CACHE_CONFIG, generateTileCacheJS } from '@/services/tile-cache';
+import { generateTilePreloaderJS, type PreloadProgress } from '@/services/tile-preloader';
+
+export interface MapMarker {
   id: string;
+  groupId?: string; // e.g. the procession the marker belongs to
   latitude: number;
   longitude: number;
   title?: string;
   description?: string;
-  type: 'cruz_de_guia' | 'paso_cristo' | 'paso_virgen' | 'carrera_oficial';
+  type: 'cruz_de_guia' | 'paso_cristo' | 'paso_virgen' | 'carrera_oficial' | 'punto_espectador' | 'conflicto';
+}
+
+export interface MapRouteSegment {
+  coordinates: { latitude: number; longitude: number }[];
+  color?: string; // Defaults to the route's style
+  weight?: number;
+  opacity?: number;
+  dashArray?: string;
 }
 
-interface MapRoute {
+export interface MapRoute {
+  id?: string;
   coordinates: { latitude: number; longitude: number }[];
   color: string;
   weight?: number;
   opacity?: number;
+  segments?: MapRouteSegment[]; // Draw the route as differently styled pieces
 }
 
 interface OSMMapProps {
@@ -26,197 +57,385 @@ interface OSMMapProps {
   primaryColor?: string;
   secondaryColor?: string;
   style?: object;
+  preloadTiles?: boolean; // Download all Huelva tiles into the offline cache
+  onPreloadProgress?: (progress: PreloadProgress) => void;
+  onMarkerPress?: (markerId: string, groupId?: string) => void;
+  onRoutePress?: (routeId: string, coordinate: MapCoordinate) => void;
+  onPopupOpen?: (markerId: string, groupId?: string) => void;
+  onMoveEnd?: (center: MapCoordinate, zoom: number, bounds: MapBounds) => void;
+  onZoomEnd?: (zoom: number) => void;
+  onLongPress?: (coordinate: MapCoordinate) => void;
+  onError?: (message: string, source?: string) => void;
+  ref?: Ref<OSMMapHandle>;
 }
 
-export function OSMMap({
-  center,
-  zoom = 15,
-  markers = [],
-  route,
-  routes = [],
-  primaryColor = '#5D2E8C',
-  secondaryColor = '#D4AF37',
-  style,
-}: OSMMapProps) {
-  // Generate the Leaflet HTML
-  const generateMapHTML = () => {
-    const getMarkerConfig = (type: MapMarker['type']) => {
-      switch (type) {
-        case 'cruz_de_guia':
-          return {
-            emoji: '✝️',
-            className: 'cruz-marker',
-            size: 44,
-            bgColor: '#4A1942', // Dark purple
-          };
-        case 'paso_cristo':
-          return {
-            emoji: '✟',
-            className: 'paso-cristo-marker',
-            size: 52,
-            bgColor: '#8B0000', // Dark red for Cristo
-          };
-        case 'paso_virgen':
-          return {
-            emoji: '👑',
-            className: 'paso-virgen-marker',
-            size: 52,
-            bgColor: '#1E3A5F', // Dark blue for Virgen
-          };
-        case 'carrera_oficial':
-          return {
-            emoji: '🏛️',
-            className: 'carrera-marker',
-            size: 40,
-            bgColor: '#2E7D32', // Green
-          };
-        default:
-          return {
-            emoji: '📍',
-            className: 'default-marker',
-            size: 36,
-            bgColor: primaryColor,
-          };
-      }
-    };
+/**
+ * Imperative handle to drive the map from React Native
+ */
+export interface OSMMapHandle {
+  sendCommand: (command: MapCommand) => void;
+  setView: (center: MapCoordinate, zoom?: number) => void;
+  openPopup: (markerId: string) => void;
+}
 
-    const markersJS = markers
-      .map((marker) => {
-        const config = getMarkerConfig(marker.type);
-        return `
-          L.marker([${marker.latitude}, ${marker.longitude}], {
-            icon: L.divIcon({
-              className: '${config.className}',
-              html: '<div class="marker-icon" style="background:${config.bgColor};width:${config.size}px;height:${config.size}px;"><span>${config.emoji}</span></div><div class="marker-pulse" style="border-color:${config.bgColor};width:${config.size + 16}px;height:${config.size + 16}px;"></div>',
-              iconSize: [${config.size + 16}, ${config.size + 16}],
-              iconAnchor: [${(config.size + 16) / 2}, ${(config.size + 16) / 2}]
-            })
-          }).addTo(map)${marker.title ? `.bindPopup('<strong>${marker.title}</strong>${marker.description ? `<br/><em>${marker.description}</em>` : ''}')` : ''};
-        `;
-      })
-      .join('\n');
-
-    // Generate routes - use routes array if provided, otherwise fall back to single route
-    const allRoutes = routes.length > 0 ? routes : (route ? [route] : []);
-    const routesJS = allRoutes
-      .map((r) => `
-        L.polyline([
-          ${r.coordinates.map((c) => `[${c.latitude}, ${c.longitude}]`).join(',\n')}
-        ], {
-          color: '${r.color}',
-          weight: ${r.weight ?? 5},
-          opacity: ${r.opacity ?? 0.9},
-          lineCap: 'round',
-          lineJoin: 'round'
-        }).addTo(map);
-      `)
-      .join('\n');
-
-    return `
+const getMarkerConfig = (type: MapMarker['type'], primaryColor: string) => {
+  switch (type) {
+    case 'cruz_de_guia':
+      return {
+        emoji: '✝️',
+        className: 'cruz-marker',
+        size: 44,
+        color: '#4A1942', // Dark purple
+      };
+    case 'paso_cristo':
+      return {
+        emoji: '✟',
+        className: 'paso-cristo-marker',
+        size: 52,
+        color: '#8B0000', // Dark red for Cristo
+      };
+    case 'paso_virgen':
+      return {
+        emoji: '👑',
+        className: 'paso-virgen-marker',
+        size: 52,
+        color: '#1E3A5F', // Dark blue for Virgen
+      };
+    case 'carrera_oficial':
+      return {
+        emoji: '🏛️',
+        className: 'carrera-marker',
+        size: 40,
+        color: '#2E7D32', // Green
+      };
+    case 'punto_espectador':
+      return {
+        emoji: '📍',
+        className: 'spot-marker',
+        size: 40,
+        color: '#C77700', // Amber
+      };
+    case 'conflicto':
+      return {
+        emoji: '⚠️',
+        className: 'conflict-marker',
+        size: 34,
+        color: '#E65100', // Orange
+      };
+    default:
+      return {
+        emoji: '📍',
+        className: 'default-marker',
+        size: 36,
+        color: primaryColor,
+      };
+  }
+};
+
+const toMarkerPayload = (marker: MapMarker, primaryColor: string): MapMarkerPayload => ({
+  id: marker.id,
+  groupId: marker.groupId,
+  latitude: marker.latitude,
+  longitude: marker.longitude,
+  title: marker.title,
+  description: marker.description,
+  icon: getMarkerConfig(marker.type, primaryColor),
+});
+
+/**
+ * Size of a screen pixel on the ground at a zoom level (Web Mercator, 256 px tiles)
+ * Route detail smaller than a pixel is dropped before sending routes to the page.
+ */
+const metersPerPixel = (zoom: number, latitude: number) =>
+  (156543.03 * Math.cos((latitude * Math.PI) / 180)) / Math.pow(2, zoom);
+
+const toRoutePayload = (route: MapRoute, index: number, toleranceMeters: number): MapRoutePayload => {
+  const segments = (route.segments ?? [{ coordinates: route.coordinates }])
+    .filter(segment => segment.coordinates.length > 1);
+  const encode = (coordinates: MapRoute['coordinates']) =>
+    encodePolyline(simplifyPolyline(coordinates, toleranceMeters));
+
+  return {
+    id: route.id ?? `route-${index}`,
+    polyline: encode(route.coordinates),
+    segments: segments.map(segment => ({
+      polyline: encode(segment.coordinates),
+      color: segment.color ?? route.color,
+      weight: segment.weight ?? route.weight ?? 5,
+      opacity: segment.opacity ?? route.opacity ?? 0.9,
+      dashArray: segment.dashArray,
+    })),
+  };
+};
+
+const viewKey = (center: MapCoordinate, zoom: number) =>
+  `${center.latitude},${center.longitude},${zoom}`;
+
+/**
+ * Generate the Leaflet document
+ * Loaded once: markers, routes, view and theme are applied later through bridge commands
+ */
+function generateMapHTML(center: MapCoordinate, zoom: number, preloadTiles: boolean): string {
+  return `
       <!DOCTYPE html>
       <html>
       <head>
         <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no" />
-        <link rel="stylesheet" href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css" />
-        <script src="https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"></script>
-        <style>
-          * { margin: 0; padding: 0; box-sizing: border-box; }
-          html, body, #map { width: 100%; height: 100%; }
-          
-          .cruz-marker,
-          .paso-cristo-marker,
-          .paso-virgen-marker,
-          .carrera-marker,
-          .default-marker {
-            background: transparent !important;
-            border: none !important;
-          }
-          
-          .marker-icon {
-            border-radius: 50%;
-            display: flex;
-            align-items: center;
-            justify-content: center;
-            box-shadow: 0 4px 12px rgba(0,0,0,0.35);
-            position: relative;
-            z-index: 2;
-            margin: 8px;
-          }
-          
-          .marker-icon span {
-            font-size: 22px;
-            filter: drop-shadow(0 1px 2px rgba(0,0,0,0.3));
-          }
-          
-          .paso-cristo-marker .marker-icon span,
-          .paso-virgen-marker .marker-icon span {
-            font-size: 26px;
-          }
-          
-          .marker-pulse {
-            position: absolute;
-            top: 0;
-            left: 0;
-            border: 3px solid;
-            border-radius: 50%;
-            opacity: 0.5;
-            animation: pulse 2s ease-out infinite;
-          }
-          
-          @keyframes pulse {
-            0% { transform: scale(0.8); opacity: 0.6; }
-            100% { transform: scale(1.3); opacity: 0; }
-          }
-          
-          .leaflet-popup-content-wrapper {
-            border-radius: 12px;
-            box-shadow: 0 4px 16px rgba(0,0,0,0.2);
-          }
-          
-          .leaflet-popup-content {
-            margin: 14px 18px;
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-            font-size: 14px;
-            line-height: 1.4;
-          }
-          
-          .leaflet-popup-content strong {
-            color: #1a1a2e;
-          }
-          
-          .leaflet-popup-content em {
-            color: #666;
-            font-size: 12px;
-          }
-        </style>
+        <style>${LEAFLET_CSS}</style>
+        <style>${MAP_CSS}</style>
       </head>
       <body>
         <div id="map"></div>
+        <div id="offline-overlay" class="offline-overlay hidden">
+          <div class="offline-icon">📡</div>
+          <strong>Mapa sin conexión</strong>
+          <span id="offline-message"></span>
+        </div>
+        <script>${LEAFLET_JS}</script>
+        <script>
+          function showOffline(message, translucent) {
+            document.getElementById('offline-message').textContent = message;
+            document.getElementById('offline-overlay').className =
+              'offline-overlay' + (translucent ? ' translucent' : '');
+          }
+
+          function hideOffline() {
+            document.getElementById('offline-overlay').className = 'offline-overlay hidden';
+          }
+
+          if (typeof L === 'undefined') {
+            showOffline('No se ha podido cargar el mapa. Vuelve a intentarlo cuando tengas conexión.', false);
+          }
+        </script>
         <script>
+          ${generatePolylineDecoderJS()}
+          ${generateMapBridgeJS()}
+
           var map = L.map('map', {
             zoomControl: true,
-            attributionControl: true
-          }).setView([${center.latitude}, ${center.longitude}], ${zoom});
-          
-          L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-            maxZoom: 19,
-            attribution: '© OpenStreetMap'
+            attributionControl: true,
+            tapHold: true
+          }).setView(${serializeForScript([center.latitude, center.longitude])}, ${serializeForScript(zoom)});
+
+          ${generateTileCacheJS()}
+          ${generateTilePreloaderJS()}
+
+          var tileLayer = L.tileLayer.cached(${serializeForScript(TILE_CACHE_CONFIG.cdnUrl)}, {
+            subdomains: ${serializeForScript(TILE_CACHE_CONFIG.subdomains)},
+            fallbackUrl: ${serializeForScript(TILE_CACHE_CONFIG.fallbackUrl)},
+            fallbackSubdomains: ${serializeForScript(TILE_CACHE_CONFIG.fallbackSubdomains)},
+            maxZoom: ${TILE_CACHE_CONFIG.maxZoom},
+            attribution: ${serializeForScript(TILE_CACHE_CONFIG.attribution)}
           }).addTo(map);
-          
-          ${routesJS}
-          ${markersJS}
+
+          // Offline state: tiles failing with none served from cache or network
+          var tileStatus = { loaded: 0, failed: 0 };
+          tileLayer.on('tileload', function() {
+            tileStatus.loaded++;
+            hideOffline();
+          });
+          tileLayer.on('tileerror', function() {
+            tileStatus.failed++;
+            if (tileStatus.loaded === 0 && tileStatus.failed >= 4) {
+              showOffline('Esta zona no está guardada en el dispositivo. Los recorridos se siguen mostrando.', true);
+            }
+          });
+
+          MapBridge.attach(map);
+
+          ${preloadTiles ? 'TilePreloader.preloadAll();' : ''}
         </script>
       </body>
       </html>
     `;
+}
+
+export function OSMMap({
+  center,
+  zoom = 15,
+  markers = [],
+  route,
+  routes = [],
+  primaryColor = '#5D2E8C',
+  secondaryColor = '#D4AF37',
+  style,
+  preloadTiles = false,
+  onPreloadProgress,
+  onMarkerPress,
+  onRoutePress,
+  onPopupOpen,
+  onMoveEnd,
+  onZoomEnd,
+  onLongPress,
+  onError,
+  ref,
+}: OSMMapProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const webViewRef = useRef<WebView>(null);
+  const isReady = useRef(false);
+  const pendingCommands = useRef<MapCommand[]>([]);
+
+  // The document is generated once; later prop changes are sent as diffs
+  const [initialView] = useState(() => ({ center, zoom, preloadTiles }));
+  const [html] = useState(() => generateMapHTML(initialView.center, initialView.zoom, initialView.preloadTiles));
+
+  // Zoom the page currently shows; routes are simplified for it
+  const [mapZoom, setMapZoom] = useState(initialView.zoom);
+
+  // What the page currently shows, to compute the next diff
+  const sentMarkers = useRef(new Map<string, string>());
+  const sentRoutes = useRef(new Map<string, string>());
+  const sentTheme = useRef<string | null>(null);
+  const sentView = useRef(viewKey(initialView.center, initialView.zoom));
+  const sentPreload = useRef(initialView.preloadTiles);
+
+  // Deliver a command to the page, queueing it until the map is ready
+  const sendCommand = useCallback((command: MapCommand) => {
+    if (!isReady.current) {
+      pendingCommands.current.push(command);
+      return;
+    }
+
+    if (Platform.OS === 'web') {
+      iframeRef.current?.contentWindow?.postMessage(JSON.stringify(command), '*');
+    } else {
+      webViewRef.current?.injectJavaScript(buildInjectedCommand(command));
+    }
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    sendCommand,
+    setView: (target, targetZoom) => sendCommand({ type: 'setView', center: target, zoom: targetZoom }),
+    openPopup: (markerId) => sendCommand({ type: 'openPopup', markerId }),
+  }), [sendCommand]);
+
+  // Bring the page in line with the current props, sending only what changed
+  const syncMap = () => {
+    if (!isReady.current) return;
+
+    // Use routes array if provided, otherwise fall back to single route
+    const allRoutes = routes.length > 0 ? routes : (route ? [route] : []);
+
+    const tolerance = metersPerPixel(mapZoom, center.latitude);
+
+    const routeDiff = diffPayloads(
+      sentRoutes.current,
+      allRoutes.map((mapRoute, index) => toRoutePayload(mapRoute, index, tolerance))
+    );
+    if (routeDiff.removals.length > 0) {
+      sendCommand({ type: 'removeRoutes', ids: routeDiff.removals });
+    }
+    if (routeDiff.upserts.length > 0) {
+      sendCommand({ type: 'upsertRoutes', routes: routeDiff.upserts });
+    }
+    sentRoutes.current = routeDiff.snapshot;
+
+    const markerDiff = diffPayloads(
+      sentMarkers.current,
+      markers.map((marker) => toMarkerPayload(marker, primaryColor))
+    );
+    if (markerDiff.removals.length > 0) {
+      sendCommand({ type: 'removeMarkers', ids: markerDiff.removals });
+    }
+    if (markerDiff.upserts.length > 0) {
+      sendCommand({ type: 'upsertMarkers', markers: markerDiff.upserts });
+    }
+    sentMarkers.current = markerDiff.snapshot;
+
+    const theme = { primaryColor, secondaryColor };
+    const themeKey = JSON.stringify(theme);
+    if (sentTheme.current !== themeKey) {
+      sendCommand({ type: 'setTheme', theme });
+      sentTheme.current = themeKey;
+    }
+
+    const nextView = viewKey(center, zoom);
+    if (sentView.current !== nextView) {
+      sendCommand({ type: 'setView', center, zoom });
+      sentView.current = nextView;
+    }
+
+    if (preloadTiles && !sentPreload.current) {
+      sendCommand({ type: 'startPreload' });
+    }
+    sentPreload.current = preloadTiles;
+  };
+
+  useEffect(() => {
+    syncMap();
+  });
+
+  // Dispatch an event posted by the map page
+  const handleMapEvent = (event: MapEvent) => {
+    switch (event.type) {
+      case 'ready': {
+        // A (re)loaded page starts from the initial document: resend everything
+        isReady.current = true;
+        sentMarkers.current = new Map();
+        sentRoutes.current = new Map();
+        sentTheme.current = null;
+        sentView.current = viewKey(initialView.center, initialView.zoom);
+        sentPreload.current = initialView.preloadTiles;
+        setMapZoom(initialView.zoom);
+
+        const queued = pendingCommands.current;
+        pendingCommands.current = [];
+        queued.forEach(sendCommand);
+        syncMap();
+        break;
+      }
+      case 'markerPress':
+        onMarkerPress?.(event.markerId, event.groupId);
+        break;
+      case 'routePress':
+        onRoutePress?.(event.routeId, event.coordinate);
+        break;
+      case 'popupOpen':
+        onPopupOpen?.(event.markerId, event.groupId);
+        break;
+      case 'moveEnd':
+        onMoveEnd?.(event.center, event.zoom, event.bounds);
+        break;
+      case 'zoomEnd':
+        setMapZoom(Math.round(event.zoom));
+        onZoomEnd?.(event.zoom);
+        break;
+      case 'longPress':
+        onLongPress?.(event.coordinate);
+        break;
+      case 'preloadProgress':
+        onPreloadProgress?.(event.progress);
+        break;
+      case 'error':
+        console.warn('[OSMMap] Map page error:', event.message);
+        onError?.(event.message, event.source);
+        break;
+    }
   };
 
-  const html = generateMapHTML();
+  const handleMapMessage = (data: unknown) => {
+    const event = parseMapEvent(data);
+    if (event) handleMapEvent(event);
+  };
+
+  // On web the iframe posts to the parent window
+  useEffect(() => {
+    if (Platform.OS !== 'web') return;
+
+    const listener = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      handleMapMessage(event.data);
+    };
+
+    window.addEventListener('message', listener);
+    return () => window.removeEventListener('message', listener);
+  });
 
   if (Platform.OS === 'web') {
     return (
       <View style={[styles.container, style]}>
         <iframe
+          ref={iframeRef}
           srcDoc={html}
           style={{ width: '100%', height: '100%', border: 'none' }}
           title="OpenStreetMap"
@@ -228,6 +447,7 @@ export function OSMMap({
   return (
     <View style={[styles.container, style]}>
       <WebView
+        ref={webViewRef}
         source={{ html }}
         style={styles.webview}
         scrollEnabled={false}
@@ -236,6 +456,10 @@ export function OSMMap({
         domStorageEnabled={true}
         startInLoadingState={true}
         originWhitelist={['*']}
+        onMessage={(event: WebViewMessageEvent) => handleMapMessage(event.nativeEvent.data)}
+        onLoadStart={() => {
+          isReady.current = false;
+        }}
       />
     </View>
   );
@@ -0,0 +1,152 @@
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import type { PassingTime } from '@/services/passing-times';
+
+interface PassingTimesPanelProps {
+  title: string; // Saved spot name, or a generic label for a long-pressed point
+  passingTimes: PassingTime[];
+  isSaved: boolean;
+  onSave?: () => void;
+  onRemove?: () => void;
+  onClose: () => void;
+  onDirections?: () => void; // Walking directions to the spot
+  directionsStatus?: string | null; // e.g. distance, loading or error message
+  style?: object;
+}
+
+/**
+ * Card listing when each procession of the day passes a spectator's spot:
+ * the Cruz de Guía first, then every paso
+ */
+export function PassingTimesPanel({
+  title,
+  passingTimes,
+  isSaved,
+  onSave,
+  onRemove,
+  onClose,
+  onDirections,
+  directionsStatus,
+  style,
+}: PassingTimesPanelProps) {
+  const colorScheme = useColorScheme() ?? 'light';
+  const colors = Colors[colorScheme];
+
+  return (
+    <View style={[styles.panel, { backgroundColor: colors.cardBackground, borderColor: colors.cardBorder }, style]}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: colors.text }]} numberOfLines={1}>📍 {title}</Text>
+        {onDirections && (
+          <TouchableOpacity onPress={onDirections}>
+            <Text style={[styles.action, { color: colors.primary }]}>Cómo llegar</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity onPress={isSaved ? onRemove : onSave}>
+          <Text style={[styles.action, { color: colors.primary }]}>{isSaved ? 'Olvidar' : 'Guardar'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={[styles.close, { color: colors.icon }]}>✕</Text>
+        </TouchableOpacity>
+      </View>
+
+      {directionsStatus ? (
+        <Text style={[styles.directions, { color: colors.icon }]}>{directionsStatus}</Text>
+      ) : null}
+
+      {passingTimes.length === 0 ? (
+        <Text style={[styles.empty, { color: colors.icon }]}>
+          Ninguna procesión de este día pasa por aquí
+        </Text>
+      ) : (
+        <ScrollView style={styles.list}>
+          {passingTimes.map(passing => (
+            <View
+              key={`${passing.procession.id}:${Math.round(passing.distanceAlong)}`}
+              style={[styles.item, { borderColor: colors.cardBorder }]}
+            >
+              <View style={styles.itemHeader}>
+                <Text style={[styles.processionName, { color: colors.text }]} numberOfLines={1}>
+                  {passing.procession.name}
+                </Text>
+                <Text style={[styles.time, { color: colors.primary }]}>{passing.time}</Text>
+              </View>
+              <Text style={[styles.detail, { color: colors.icon }]}>
+                ✝️ Cruz de Guía {passing.time}
+                {passing.pasos.map(({ paso, time }) => ` · ${paso.type === 'cristo' ? '✟' : '👑'} ${time}`).join('')}
+              </Text>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    elevation: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    letterSpacing: -0.3,
+  },
+  action: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  close: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  directions: {
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  empty: {
+    fontSize: 12,
+    paddingVertical: 8,
+  },
+  list: {
+    maxHeight: 220,
+  },
+  item: {
+    borderTopWidth: 1,
+    paddingVertical: 8,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  processionName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  time: {
+    fontSize: 14,
+    fontWeight: '700',
+    marginLeft: 8,
+  },
+  detail: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,138 @@
+import { useRef, useState } from 'react';
+import { PanResponder, StyleSheet, Text, TouchableOpacity, View, type LayoutChangeEvent } from 'react-native';
+
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { formatClockTime } from '@/services/pace-model';
+
+interface TimeSliderProps {
+  min: number; // Minutes after midnight
+  max: number;
+  value: number;
+  step?: number; // Minutes
+  onChange: (value: number) => void;
+  onClose: () => void;
+  onShare?: () => void; // Share a link to this moment
+  style?: object;
+}
+
+const THUMB_SIZE = 24;
+
+/**
+ * Slider to scrub through the hours of a procession day
+ * Drag the thumb or tap anywhere on the track; values snap to `step` minutes.
+ */
+export function TimeSlider({ min, max, value, step = 5, onChange, onClose, onShare, style }: TimeSliderProps) {
+  const colorScheme = useColorScheme() ?? 'light';
+  const colors = Colors[colorScheme];
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  // PanResponder is created once: read the latest props through a ref
+  const latest = useRef({ min, max, step, trackWidth, onChange });
+  latest.current = { min, max, step, trackWidth, onChange };
+
+  const valueAt = (x: number) => {
+    const { min, max, step, trackWidth } = latest.current;
+    if (trackWidth <= 0) return min;
+    const ratio = Math.max(0, Math.min(1, x / trackWidth));
+    return Math.round((min + ratio * (max - min)) / step) * step;
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: event => latest.current.onChange(valueAt(event.nativeEvent.locationX)),
+      onPanResponderMove: event => latest.current.onChange(valueAt(event.nativeEvent.locationX)),
+    })
+  ).current;
+
+  const ratio = max > min ? (Math.min(max, Math.max(min, value)) - min) / (max - min) : 0;
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.cardBackground, borderColor: colors.cardBorder }, style]}>
+      <View style={styles.header}>
+        <Text style={[styles.label, { color: colors.icon }]}>Simulación horaria</Text>
+        <Text style={[styles.time, { color: colors.primary }]}>{formatClockTime(value)}</Text>
+        {onShare && (
+          <TouchableOpacity onPress={onShare}>
+            <Text style={[styles.close, { color: colors.primary }]}>↗</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity onPress={onClose}>
+          <Text style={[styles.close, { color: colors.icon }]}>✕</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View
+        style={styles.touchArea}
+        onLayout={(event: LayoutChangeEvent) => setTrackWidth(event.nativeEvent.layout.width)}
+        {...panResponder.panHandlers}
+      >
+        <View pointerEvents="none" style={[styles.track, { backgroundColor: colors.cardBorder }]}>
+          <View style={[styles.fill, { width: ratio * trackWidth, backgroundColor: colors.primary }]} />
+        </View>
+        <View
+          pointerEvents="none"
+          style={[styles.thumb, { left: ratio * trackWidth - THUMB_SIZE / 2, backgroundColor: colors.primary }]}
+        />
+      </View>
+
+      <View style={styles.header}>
+        <Text style={[styles.bound, { color: colors.icon }]}>{formatClockTime(min)}</Text>
+        <Text style={[styles.bound, { color: colors.icon }]}>{formatClockTime(max)}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 16,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  label: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  time: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  close: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  touchArea: {
+    height: 36,
+    justifyContent: 'center',
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 4,
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    borderWidth: 3,
+    borderColor: '#FFFFFF',
+  },
+  bound: {
+    fontSize: 10,
+  },
+});
@@ -0,0 +1,101 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { act, create } from 'react-test-renderer';
+
+import { makeProcession } from '@/services/__fixtures__/processions';
+import { FavoritesProvider, useFavoritesContext } from '../favorites-context';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const STORAGE_KEY = '@semana_santa_favorites';
+
+const cautivo = makeProcession();
+const borriquita = makeProcession({ id: '1', name: 'La Borriquita', brotherhoodId: 'entrada-triunfal', day: 'Domingo de Ramos' });
+
+// Render the provider and hand back a getter for its latest value
+async function renderFavorites() {
+  let context: ReturnType<typeof useFavoritesContext> | null = null;
+  function Probe() {
+    context = useFavoritesContext();
+    return null;
+  }
+
+  await act(async () => {
+    create(
+      <FavoritesProvider>
+        <Probe />
+      </FavoritesProvider>
+    );
+  });
+
+  return () => context!;
+}
+
+async function stored() {
+  return JSON.parse((await AsyncStorage.getItem(STORAGE_KEY)) ?? 'null');
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('FavoritesProvider', () => {
+  it('keeps both of two quick toggles', async () => {
+    const favorites = await renderFavorites();
+
+    await act(async () => {
+      favorites().toggleStar(cautivo);
+      favorites().toggleStar(borriquita);
+      favorites().toggleFollow('cautivo');
+      favorites().toggleFollow('entrada-triunfal');
+    });
+
+    expect(favorites().processions.map(star => star.id)).toEqual(['2', '1']);
+    expect(favorites().brotherhoodIds).toEqual(['cautivo', 'entrada-triunfal']);
+    expect(await stored()).toEqual({
+      brotherhoodIds: ['cautivo', 'entrada-triunfal'],
+      processions: favorites().processions,
+    });
+  });
+
+  it('toggles a star off from the latest state', async () => {
+    const favorites = await renderFavorites();
+
+    await act(async () => {
+      favorites().toggleStar(cautivo);
+      favorites().toggleStar(cautivo);
+    });
+
+    expect(favorites().processions).toEqual([]);
+    expect((await stored()).processions).toEqual([]);
+  });
+
+  it("doesn't lose a star made before the saved favorites load", async () => {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify({ brotherhoodIds: ['cautivo'], processions: [] }));
+
+    // Hold the load until the user has starred something
+    let finishLoad: () => void = () => {};
+    const getItem = AsyncStorage.getItem;
+    jest.spyOn(AsyncStorage, 'getItem').mockImplementationOnce(
+      key => {
+        const saved = getItem(key); // Read now, delivered later
+        return new Promise(resolve => {
+          finishLoad = () => resolve(saved);
+        });
+      }
+    );
+
+    const favorites = await renderFavorites();
+    await act(async () => {
+      favorites().toggleStar(borriquita);
+    });
+    await act(async () => {
+      finishLoad();
+    });
+
+    expect(favorites().brotherhoodIds).toEqual(['cautivo']);
+    expect(favorites().processions.map(star => star.id)).toEqual(['1']);
+    expect(await stored()).toEqual({ brotherhoodIds: ['cautivo'], processions: favorites().processions });
+  });
+});
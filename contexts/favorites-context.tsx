@@ -0,0 +1,144 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { Procession } from '@/types/data';
+
+/**
+ * A starred procession, with enough to find it again if the data source
+ * renumbers ids: a brotherhood goes out once per day of an edition
+ */
+export interface StarredProcession {
+  id: string;
+  brotherhoodId: string;
+  editionYear: number;
+  day: string;
+}
+
+interface Favorites {
+  brotherhoodIds: string[]; // Followed hermandades
+  processions: StarredProcession[];
+}
+
+interface FavoritesContextType extends Favorites {
+  toggleFollow: (brotherhoodId: string) => void;
+  toggleStar: (procession: Procession) => void;
+}
+
+const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
+
+const FAVORITES_STORAGE_KEY = '@semana_santa_favorites';
+
+const EMPTY_FAVORITES: Favorites = { brotherhoodIds: [], processions: [] };
+
+/**
+ * Whether a stored star refers to a procession, by id or, if ids changed, by brotherhood and day
+ */
+export function isSameProcession(starred: StarredProcession, procession: Procession): boolean {
+  return starred.id === procession.id || (
+    starred.brotherhoodId === procession.brotherhoodId &&
+    starred.editionYear === procession.editionYear &&
+    starred.day === procession.day
+  );
+}
+
+/**
+ * Saved favorites plus any added before they finished loading
+ */
+function mergeFavorites(saved: Favorites, added: Favorites): Favorites {
+  return {
+    brotherhoodIds: Array.from(new Set([...saved.brotherhoodIds, ...added.brotherhoodIds])),
+    processions: [
+      ...saved.processions.filter(star => !added.processions.some(other => other.id === star.id)),
+      ...added.processions,
+    ],
+  };
+}
+
+export function FavoritesProvider({ children }: { children: React.ReactNode }) {
+  const [favorites, setFavorites] = useState<Favorites>(EMPTY_FAVORITES);
+
+  // Load saved favorites
+  useEffect(() => {
+    loadFavorites();
+  }, []);
+
+  const loadFavorites = async () => {
+    try {
+      const saved = await AsyncStorage.getItem(FAVORITES_STORAGE_KEY);
+      if (saved) {
+        const loaded: Favorites = { ...EMPTY_FAVORITES, ...JSON.parse(saved) };
+        setFavorites(current => {
+          if (current === EMPTY_FAVORITES) return loaded;
+          // Starred while the load was in flight: keep both, and store the union
+          const merged = mergeFavorites(loaded, current);
+          saveFavorites(merged);
+          return merged;
+        });
+      }
+    } catch (error) {
+      console.error('Error loading favorites:', error);
+    }
+  };
+
+  const saveFavorites = async (next: Favorites) => {
+    try {
+      await AsyncStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error('Error saving favorites:', error);
+    }
+  };
+
+  /**
+   * Apply a change to the latest favorites and persist the result
+   * Built from the previous state, so quick successive toggles don't drop each other.
+   */
+  const updateFavorites = (change: (current: Favorites) => Favorites) => {
+    setFavorites(current => {
+      const next = change(current);
+      if (next !== current) saveFavorites(next);
+      return next;
+    });
+  };
+
+  const toggleFollow = (brotherhoodId: string) => {
+    updateFavorites(current => ({
+      ...current,
+      brotherhoodIds: current.brotherhoodIds.includes(brotherhoodId)
+        ? current.brotherhoodIds.filter(id => id !== brotherhoodId)
+        : [...current.brotherhoodIds, brotherhoodId],
+    }));
+  };
+
+  const toggleStar = (procession: Procession) => {
+    updateFavorites(current => {
+      const others = current.processions.filter(star => !isSameProcession(star, procession));
+      if (others.length < current.processions.length) {
+        return { ...current, processions: others };
+      }
+
+      const starred: StarredProcession = {
+        id: procession.id,
+        brotherhoodId: procession.brotherhoodId,
+        editionYear: procession.editionYear,
+        day: procession.day,
+      };
+      return { ...current, processions: [...others, starred] };
+    });
+  };
+
+  return (
+    <FavoritesContext.Provider
+      value={{ ...favorites, toggleFollow, toggleStar }}
+    >
+      {children}
+    </FavoritesContext.Provider>
+  );
+}
+
+export function useFavoritesContext() {
+  const context = useContext(FavoritesContext);
+  if (context === undefined) {
+    throw new Error('useFavoritesContext must be used within a FavoritesProvider');
+  }
+  return context;
+}
@@ -0,0 +1,95 @@
+/**
+ * React hooks for the brotherhood directory (Hermandades tab)
+ * A brotherhood's procession is looked up by `brotherhoodId` in the current edition
+ */
+
+import { useEffect, useState } from 'react';
+
+import { dataService } from '@/services/data-service';
+import { NotFoundError } from '@/services/repositories/IProcessionRepository';
+import type { Brotherhood, Procession } from '@/types/data';
+
+interface UseBrotherhoodsResult {
+  brotherhoods: Brotherhood[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface UseBrotherhoodResult {
+  brotherhood: Brotherhood | null;
+  procession: Procession | null; // This year's, if it goes out
+  isLoading: boolean;
+  error: string | null;
+  notFound: boolean; // No brotherhood has this id (stale or mistyped link)
+}
+
+/**
+ * Every brotherhood in the directory
+ */
+export function useBrotherhoods(): UseBrotherhoodsResult {
+  const [brotherhoods, setBrotherhoods] = useState<Brotherhood[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadBrotherhoods = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setBrotherhoods(await dataService.getBrotherhoods());
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load brotherhoods';
+        setError(errorMessage);
+        console.error('Error loading brotherhoods:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadBrotherhoods();
+  }, []);
+
+  return { brotherhoods, isLoading, error };
+}
+
+/**
+ * One brotherhood and its procession in the current edition
+ */
+export function useBrotherhood(id: string | undefined): UseBrotherhoodResult {
+  const [brotherhood, setBrotherhood] = useState<Brotherhood | null>(null);
+  const [procession, setProcession] = useState<Procession | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadBrotherhood = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setNotFound(false);
+        const [found, processions] = await Promise.all([
+          dataService.getBrotherhoodById(id),
+          dataService.getProcessions({ brotherhoodId: id }),
+        ]);
+        setBrotherhood(found);
+        setProcession(processions[0] ?? null);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load brotherhood';
+        setError(errorMessage);
+        setNotFound(err instanceof NotFoundError);
+        setBrotherhood(null);
+        setProcession(null);
+        console.error('Error loading brotherhood:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadBrotherhood();
+  }, [id]);
+
+  return { brotherhood, procession, isLoading, error, notFound };
+}
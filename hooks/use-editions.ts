@@ -0,0 +1,48 @@
+/**
+ * React hook for the Semana Santa editions there is data for
+ * Past editions are kept for browsing; the current one is what the app follows live
+ */
+
+import { useEffect, useState } from 'react';
+
+import { dataService } from '@/services/data-service';
+import { pickCurrentEdition } from '@/services/holy-week';
+import type { SemanaSantaEdition } from '@/types/data';
+
+interface UseEditionsResult {
+  editions: SemanaSantaEdition[]; // Newest first
+  currentEdition: SemanaSantaEdition | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function useEditions(): UseEditionsResult {
+  const [editions, setEditions] = useState<SemanaSantaEdition[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadEditions = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setEditions(await dataService.getEditions());
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load editions';
+        setError(errorMessage);
+        console.error('Error loading editions:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadEditions();
+  }, []);
+
+  return {
+    editions,
+    currentEdition: pickCurrentEdition(editions),
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * React hook for the user's favorites: followed hermandades and starred processions
+ * Stored on the device (see FavoritesProvider), apart from procession data, so
+ * they survive refreshes; a procession is a favorite if starred or its hermandad is followed.
+ */
+
+import { useCallback } from 'react';
+
+import { isSameProcession, useFavoritesContext } from '@/contexts/favorites-context';
+import type { Procession } from '@/types/data';
+
+interface UseFavoritesResult {
+  followedBrotherhoodIds: string[];
+  isFollowed: (brotherhoodId: string) => boolean;
+  toggleFollow: (brotherhoodId: string) => void;
+  isStarred: (procession: Procession) => boolean;
+  toggleStar: (procession: Procession) => void;
+  isFavorite: (procession: Procession) => boolean; // Starred or of a followed hermandad
+  filterFavorites: (processions: Procession[]) => Procession[];
+}
+
+export function useFavorites(): UseFavoritesResult {
+  const { brotherhoodIds, processions: starred, toggleFollow, toggleStar } = useFavoritesContext();
+
+  const isFollowed = useCallback(
+    (brotherhoodId: string) => brotherhoodIds.includes(brotherhoodId),
+    [brotherhoodIds]
+  );
+
+  const isStarred = useCallback(
+    (procession: Procession) => starred.some(star => isSameProcession(star, procession)),
+    [starred]
+  );
+
+  const isFavorite = useCallback(
+    (procession: Procession) => isStarred(procession) || isFollowed(procession.brotherhoodId),
+    [isStarred, isFollowed]
+  );
+
+  const filterFavorites = useCallback(
+    (processions: Procession[]) => processions.filter(isFavorite),
+    [isFavorite]
+  );
+
+  return {
+    followedBrotherhoodIds: brotherhoodIds,
+    isFollowed,
+    toggleFollow,
+    isStarred,
+    toggleStar,
+    isFavorite,
+    filterFavorites,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * React hook for the procession notification settings
+ * Per-procession toggles and quiet hours; changing them reschedules the notifications
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  loadNotificationSettings,
+  saveNotificationSettings,
+  subscribeToNotificationSettings,
+  type NotificationSettings,
+  type QuietHours,
+} from '@/services/notifications';
+
+interface UseNotificationsResult {
+  settings: NotificationSettings;
+  isLoading: boolean;
+  isNotifying: (processionId: string) => boolean;
+  toggleProcession: (processionId: string) => void;
+  setQuietHours: (quietHours: QuietHours | null) => void;
+}
+
+export function useNotifications(): UseNotificationsResult {
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadNotificationSettings().then(loaded => {
+      if (cancelled) return;
+      setSettings(loaded);
+      setIsLoading(false);
+    });
+
+    // Keep in step with changes made from other screens
+    const unsubscribe = subscribeToNotificationSettings(setSettings);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const isNotifying = useCallback(
+    (processionId: string) => settings.processionIds.includes(processionId),
+    [settings]
+  );
+
+  const toggleProcession = useCallback((processionId: string) => {
+    const processionIds = settings.processionIds.includes(processionId)
+      ? settings.processionIds.filter(id => id !== processionId)
+      : [...settings.processionIds, processionId];
+    saveNotificationSettings({ ...settings, processionIds });
+  }, [settings]);
+
+  const setQuietHours = useCallback((quietHours: QuietHours | null) => {
+    saveNotificationSettings({ ...settings, quietHours });
+  }, [settings]);
+
+  return {
+    settings,
+    isLoading,
+    isNotifying,
+    toggleProcession,
+    setQuietHours,
+  };
+}
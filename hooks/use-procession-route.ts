@@ -1,35 +1,46 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 
-import { getProcessionRoute, formatDistance, formatDuration, type Coordinate, type RouteResult } from '@/services/routing';
-import type { Procession } from '@/types/data';
+import { buildPaceModel, type PaceModel } from '@/services/pace-model';
+import { getCachedProcessionRoute, getCachedRoute, hashWaypoints } from '@/services/route-cache';
+import { formatDistance, formatDuration, type Coordinate, type RouteResult } from '@/services/routing';
+import type { Procession, RoutingProviderId } from '@/types/data';
 
 interface UseProcessionRouteResult {
   routeCoordinates: Coordinate[];
   distance: string;
-  duration: string;
+  duration: string; // From the pace model, not the router's walking time
+  paceModel: PaceModel | null;
+  provider: RoutingProviderId | null; // null when showing the raw waypoints
   isLoading: boolean;
   error: string | null;
 }
 
 /**
  * Hook that fetches the real street-following route for a procession
- * Uses OSRM to calculate the actual walking path through streets
+ * Uses OSRM to calculate the actual walking path through streets,
+ * cached per procession until its waypoints change. The duration comes from
+ * the procession's schedule (see pace-model), not from the router.
  */
 export function useProcessionRoute(procession: Procession | null): UseProcessionRouteResult {
   const [routeCoordinates, setRouteCoordinates] = useState<Coordinate[]>([]);
   const [distance, setDistance] = useState<string>('');
-  const [duration, setDuration] = useState<string>('');
+  const [provider, setProvider] = useState<RoutingProviderId | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const waypointsHash = procession ? hashWaypoints(procession.route) : '';
+
   useEffect(() => {
     // Don't fetch if procession is null
     if (!procession) {
       setIsLoading(false);
       setRouteCoordinates([]);
+      setProvider(null);
       return;
     }
 
+    let cancelled = false;
+
     async function fetchRoute() {
       if (!procession) return;
 
@@ -43,17 +54,22 @@ export function useProcessionRoute(procession: Procession | null): UseProcession
           longitude: point.longitude,
         }));
 
-        // Fetch the real street-following route from OSRM
-        const result: RouteResult = await getProcessionRoute(waypoints);
+        // Fetch the real street-following route from OSRM (or the route cache)
+        const result: RouteResult = await getCachedProcessionRoute(procession.id, waypoints);
 
+        // Another procession was selected meanwhile: its own fetch owns the state
+        if (cancelled) return;
         setRouteCoordinates(result.coordinates);
         setDistance(formatDistance(result.distance));
-        setDuration(formatDuration(result.duration));
+        setProvider(result.provider);
       } catch (err) {
+        if (cancelled) return;
         console.error('Failed to fetch procession route:', err);
         setError(err instanceof Error ? err.message : 'Failed to load route');
         
-        // Fallback to original coordinates if OSRM fails
+        // Fallback to original coordinates if routing fails
+        setProvider(null);
+        setDistance('');
         setRouteCoordinates(
           procession.route.map(point => ({
             latitude: point.latitude,
@@ -61,19 +77,109 @@ export function useProcessionRoute(procession: Procession | null): UseProcession
           }))
         );
       } finally {
-        setIsLoading(false);
+        if (!cancelled) setIsLoading(false);
       }
     }
 
     fetchRoute();
-  }, [procession?.id]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [procession?.id, waypointsHash]);
+
+  // Rebuilt when the geometry arrives or the schedule changes
+  const paceModel = useMemo(
+    () => (procession && routeCoordinates.length > 1 ? buildPaceModel(procession, routeCoordinates) : null),
+    [procession, routeCoordinates]
+  );
+  const duration = paceModel && paceModel.totalDurationMinutes > 0
+    ? formatDuration(paceModel.totalDurationMinutes * 60)
+    : '';
 
   return {
     routeCoordinates,
     distance,
     duration,
+    paceModel,
+    provider,
     isLoading,
     error,
   };
 }
 
+
+interface UseProcessionRoutesOptions {
+  // Read the route cache only, never the routing server: for long lists such
+  // as the whole edition, where the map and detail screens fill the cache
+  cachedOnly?: boolean;
+}
+
+interface UseProcessionRoutesResult {
+  routes: { [processionId: string]: Coordinate[] };
+  isLoading: boolean;
+}
+
+/**
+ * Hook that loads the street-following routes of several processions at once
+ * (e.g. every procession of a day). Routes come from the route cache after the
+ * first fetch; processions that cannot be routed keep their raw waypoints.
+ */
+export function useProcessionRoutes(
+  processions: Procession[],
+  { cachedOnly = false }: UseProcessionRoutesOptions = {}
+): UseProcessionRoutesResult {
+  const [routes, setRoutes] = useState<{ [processionId: string]: Coordinate[] }>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Only refetch when the set of processions or their waypoints change
+  const requestsKey = JSON.stringify(
+    processions.map(proc => ({
+      id: proc.id,
+      waypoints: proc.route.map(point => ({ latitude: point.latitude, longitude: point.longitude })),
+    }))
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    const requests: { id: string; waypoints: Coordinate[] }[] = JSON.parse(requestsKey);
+
+    async function loadRoutes() {
+      setIsLoading(true);
+
+      // Show raw waypoints right away, replace them as street routes arrive
+      const loaded: { [processionId: string]: Coordinate[] } = {};
+      requests.forEach(request => {
+        loaded[request.id] = request.waypoints;
+      });
+      setRoutes({ ...loaded });
+
+      // One at a time: cache hits are instant, misses shouldn't flood the server
+      for (const request of requests) {
+        if (request.waypoints.length < 2) continue;
+
+        try {
+          const result = cachedOnly
+            ? await getCachedRoute(request.id, request.waypoints)
+            : await getCachedProcessionRoute(request.id, request.waypoints);
+          if (result) loaded[request.id] = result.coordinates;
+        } catch (err) {
+          console.warn(`Failed to fetch route for procession ${request.id}:`, err);
+        }
+
+        if (cancelled) return;
+        setRoutes({ ...loaded });
+      }
+
+      setIsLoading(false);
+    }
+
+    loadRoutes();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestsKey, cachedOnly]);
+
+  return { routes, isLoading };
+}
@@ -5,6 +5,8 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { dataService } from '@/services/data-service';
+import { getScheduledStatus } from '@/services/procession-schedule';
+import { NotFoundError } from '@/services/repositories/IProcessionRepository';
 import type { 
   Procession, 
   CreateProcessionDto, 
@@ -66,11 +68,16 @@ export function useProcessions(
     if (!autoRefresh) return;
 
     const unsubscribe = dataService.subscribe((updatedProcessions) => {
-      setProcessions(updatedProcessions);
+      // Notifications carry the current edition, unfiltered: filtered lists load again
+      if (filters) {
+        loadProcessions();
+      } else {
+        setProcessions(updatedProcessions);
+      }
     });
 
     return unsubscribe;
-  }, [autoRefresh]);
+  }, [autoRefresh, filters, loadProcessions]);
 
   // Refresh processions manually
   const refreshProcessions = useCallback(async () => {
@@ -135,8 +142,10 @@ export function useProcessions(
   }, [processions]);
 
   // Get the currently active procession (from current data)
+  // Without live status, the one the schedule puts on the street now
   const getActiveProcession = useCallback((): Procession | undefined => {
-    return processions.find(p => p.status === 'in_progress');
+    return processions.find(p => p.status === 'in_progress') ??
+      processions.find(p => p.status !== 'finished' && getScheduledStatus(p) === 'in_progress');
   }, [processions]);
 
   // Get unique days (from current data)
@@ -160,6 +169,48 @@ export function useProcessions(
   };
 }
 
+/**
+ * Hook to load a single procession by id (detail screen, deep links)
+ * Follows data changes, so live status and positions stay current.
+ * @param id Procession id; undefined while route params aren't ready
+ */
+export function useProcession(id: string | undefined) {
+  const [procession, setProcession] = useState<Procession | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState(false); // No procession has this id (stale or mistyped link)
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadProcession = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setNotFound(false);
+        setProcession(await dataService.getProcessionById(id));
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load procession';
+        setError(errorMessage);
+        setNotFound(err instanceof NotFoundError);
+        setProcession(null);
+        console.error('Error loading procession:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadProcession();
+
+    return dataService.subscribe((updatedProcessions) => {
+      const updated = updatedProcessions.find(p => p.id === id);
+      if (updated) setProcession(updated);
+    });
+  }, [id]);
+
+  return { procession, isLoading, error, notFound };
+}
+
 /**
  * Hook to get application configuration
  */
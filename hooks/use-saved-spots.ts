@@ -0,0 +1,56 @@
+import { useState, useCallback, useEffect } from 'react';
+
+import { rescheduleNotifications } from '@/services/notifications';
+import { loadSavedSpots, storeSavedSpots, type SavedSpot } from '@/services/saved-spots';
+
+export type { SavedSpot } from '@/services/saved-spots';
+
+interface UseSavedSpotsResult {
+  spots: SavedSpot[];
+  isLoading: boolean;
+  saveSpot: (spot: Omit<SavedSpot, 'id'>) => Promise<SavedSpot>;
+  removeSpot: (id: string) => Promise<void>;
+}
+
+/**
+ * Hook to manage the spectator's saved viewing spots ("my corner")
+ * Spots are stored in AsyncStorage and survive app restarts
+ */
+export function useSavedSpots(): UseSavedSpotsResult {
+  const [spots, setSpots] = useState<SavedSpot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load saved spots
+  useEffect(() => {
+    async function loadSpots() {
+      setSpots(await loadSavedSpots());
+      setIsLoading(false);
+    }
+
+    loadSpots();
+  }, []);
+
+  const persist = useCallback(async (next: SavedSpot[]) => {
+    setSpots(next);
+    await storeSavedSpots(next);
+    // "Passing by your spot" notifications follow the saved spots
+    rescheduleNotifications();
+  }, []);
+
+  const saveSpot = useCallback(async (spot: Omit<SavedSpot, 'id'>) => {
+    const saved: SavedSpot = { ...spot, id: String(Date.now()) };
+    await persist([...spots, saved]);
+    return saved;
+  }, [spots, persist]);
+
+  const removeSpot = useCallback(async (id: string) => {
+    await persist(spots.filter(spot => spot.id !== id));
+  }, [spots, persist]);
+
+  return {
+    spots,
+    isLoading,
+    saveSpot,
+    removeSpot,
+  };
+}
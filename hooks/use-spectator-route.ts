@@ -0,0 +1,75 @@
+import { useState, useCallback, useRef } from 'react';
+import * as Location from 'expo-location';
+
+import { getSpectatorRoute, type Coordinate, type SpectatorRouteResult } from '@/services/routing';
+
+interface UseSpectatorRouteResult {
+  route: SpectatorRouteResult | null;
+  isLoading: boolean;
+  error: string | null;
+  requestRoute: (destination: Coordinate, occupied: Coordinate[][]) => Promise<void>;
+  clearRoute: () => void;
+}
+
+/**
+ * Hook for walking directions from the user's location to a viewing spot,
+ * avoiding the streets occupied by cortejos
+ */
+export function useSpectatorRoute(): UseSpectatorRouteResult {
+  const [route, setRoute] = useState<SpectatorRouteResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bumped by every request and by clearRoute: only the latest request may set state
+  const latestRequest = useRef(0);
+
+  const requestRoute = useCallback(async (destination: Coordinate, occupied: Coordinate[][]) => {
+    const requestId = ++latestRequest.current;
+    const isStale = () => requestId !== latestRequest.current;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (isStale()) return;
+      if (status !== 'granted') {
+        setError('Permiso de ubicación denegado');
+        return;
+      }
+
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+      if (isStale()) return;
+      const from: Coordinate = {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+      };
+
+      const result = await getSpectatorRoute(from, destination, occupied);
+      // The spot changed or the route was cleared meanwhile
+      if (isStale()) return;
+      setRoute(result);
+    } catch (err) {
+      if (isStale()) return;
+      console.error('[useSpectatorRoute] Failed to get directions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to get directions');
+    } finally {
+      if (!isStale()) setIsLoading(false);
+    }
+  }, []);
+
+  const clearRoute = useCallback(() => {
+    latestRequest.current++;
+    setRoute(null);
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return {
+    route,
+    isLoading,
+    error,
+    requestRoute,
+    clearRoute,
+  };
+}
@@ -9,6 +9,7 @@ interface UseTilePreloadResult {
   progress: PreloadProgress | null;
   isPreloaded: boolean;
   isFirstLoad: boolean;
+  isCheckingStatus: boolean;
   handleProgress: (progress: PreloadProgress) => void;
   resetPreloadStatus: () => Promise<void>;
 }
@@ -21,6 +22,7 @@ export function useTilePreload(): UseTilePreloadResult {
   const [progress, setProgress] = useState<PreloadProgress | null>(null);
   const [isPreloaded, setIsPreloaded] = useState(false);
   const [isFirstLoad, setIsFirstLoad] = useState(true);
+  const [isCheckingStatus, setIsCheckingStatus] = useState(true);
 
   // Check if tiles were previously preloaded
   useEffect(() => {
@@ -33,6 +35,8 @@ export function useTilePreload(): UseTilePreloadResult {
         }
       } catch (error) {
         console.warn('[useTilePreload] Failed to check preload status:', error);
+      } finally {
+        setIsCheckingStatus(false);
       }
     }
     
@@ -71,6 +75,7 @@ export function useTilePreload(): UseTilePreloadResult {
     progress,
     isPreloaded,
     isFirstLoad,
+    isCheckingStatus,
     handleProgress,
     resetPreloadStatus,
   };
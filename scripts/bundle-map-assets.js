@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+
+/**
+ * This script bundles the assets of the map page so it can start without network.
+ * It reads Leaflet from node_modules and our own map stylesheet from assets/map,
+ * and writes them as string constants to assets/map/map-assets.generated.ts,
+ * which components/osm-map.tsx inlines into the WebView/iframe document.
+ *
+ * Run it again after upgrading Leaflet or editing assets/map/map.css:
+ *   npm run bundle-map-assets
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const root = process.cwd();
+const leafletDir = path.join(root, "node_modules", "leaflet", "dist");
+const mapAssetsDir = path.join(root, "assets", "map");
+const outputPath = path.join(mapAssetsDir, "map-assets.generated.ts");
+
+const read = (filePath) => fs.readFileSync(filePath, "utf8");
+
+// Inlined into <script>/<style>: a closing tag inside would end the element early
+const escapeClosingTags = (source, tag) =>
+  source.replace(new RegExp(`</${tag}`, "gi"), `<\\/${tag}`);
+
+const leafletVersion = JSON.parse(
+  read(path.join(root, "node_modules", "leaflet", "package.json"))
+).version;
+
+const leafletJS = escapeClosingTags(
+  read(path.join(leafletDir, "leaflet.js")).replace(/\/\/# sourceMappingURL=.*$/m, ""),
+  "script"
+);
+const leafletCSS = escapeClosingTags(read(path.join(leafletDir, "leaflet.css")), "style");
+const mapCSS = escapeClosingTags(read(path.join(mapAssetsDir, "map.css")), "style");
+
+const output = `/**
+ * Map page assets - GENERATED FILE, DO NOT EDIT
+ * Produced by scripts/bundle-map-assets.js from leaflet@${leafletVersion} and assets/map/map.css
+ */
+
+export const LEAFLET_VERSION = ${JSON.stringify(leafletVersion)};
+
+export const LEAFLET_JS = ${JSON.stringify(leafletJS)};
+
+export const LEAFLET_CSS = ${JSON.stringify(leafletCSS)};
+
+export const MAP_CSS = ${JSON.stringify(mapCSS)};
+`;
+
+fs.writeFileSync(outputPath, output);
+
+console.log(
+  `✅ Wrote ${path.relative(root, outputPath)} (leaflet@${leafletVersion}, ${Math.round(output.length / 1024)} KB)`
+);
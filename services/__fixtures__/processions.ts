@@ -0,0 +1,33 @@
+/**
+ * Procession fixtures for tests
+ */
+
+import type { Procession } from '@/types/data';
+
+/**
+ * A minimal procession (El Cautivo, Lunes Santo 2026, out past midnight),
+ * with whatever the test needs overridden
+ */
+export function makeProcession(overrides: Partial<Procession> = {}): Procession {
+  return {
+    id: '2',
+    editionYear: 2026,
+    name: 'El Cautivo',
+    brotherhood: 'Hermandad de Nuestro Padre Jesús Cautivo',
+    brotherhoodId: 'cautivo',
+    day: 'Lunes Santo',
+    departureTime: '18:30',
+    returnTime: '01:00',
+    parish: 'Capilla del Carmen',
+    cruzDeGuia: { latitude: 37.2615, longitude: -6.9465 },
+    pasos: [],
+    carreraOficial: {
+      start: { latitude: 37.2612, longitude: -6.947 },
+      end: { latitude: 37.2628, longitude: -6.9453 },
+    },
+    route: [],
+    status: 'not_started',
+    description: '',
+    ...overrides,
+  };
+}
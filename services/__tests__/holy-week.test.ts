@@ -0,0 +1,57 @@
+import { buildEdition, getCurrentHolyWeekYear, getEasterSunday, getHolyWeek } from '../holy-week';
+
+describe('getEasterSunday', () => {
+  it.each([
+    [2024, { year: 2024, month: 3, day: 31 }],
+    [2025, { year: 2025, month: 4, day: 20 }],
+    [2026, { year: 2026, month: 4, day: 5 }],
+    [2027, { year: 2027, month: 3, day: 28 }],
+  ])('finds Easter Sunday %i', (year, easter) => {
+    expect(getEasterSunday(year)).toEqual(easter);
+  });
+});
+
+describe('getHolyWeek', () => {
+  it('runs from Palm Sunday to Easter Sunday', () => {
+    const week = getHolyWeek(2026);
+
+    expect(week).toHaveLength(8);
+    expect(week[0]).toMatchObject({ holyDay: 'Domingo de Ramos', isoDate: '2026-03-29', dayName: 'Domingo 29' });
+    expect(week[1]).toMatchObject({ holyDay: 'Lunes Santo', isoDate: '2026-03-30', weekday: 'Lunes' });
+    expect(week[7]).toMatchObject({ holyDay: 'Domingo de Resurrección', isoDate: '2026-04-05' });
+  });
+
+  it('crosses the end of the month', () => {
+    const week = getHolyWeek(2024);
+
+    expect(week[0].isoDate).toBe('2024-03-24');
+    expect(week[7].isoDate).toBe('2024-03-31');
+    expect(getHolyWeek(2025)[0].isoDate).toBe('2025-04-13');
+  });
+});
+
+describe('buildEdition', () => {
+  it('is upcoming before Palm Sunday, in progress during the week and finished after Easter', () => {
+    expect(buildEdition(2026, new Date('2026-03-28T12:00:00Z')).status).toBe('upcoming');
+    expect(buildEdition(2026, new Date('2026-03-29T12:00:00Z')).status).toBe('in_progress');
+    expect(buildEdition(2026, new Date('2026-04-05T21:30:00Z')).status).toBe('in_progress'); // 23:30 in Huelva
+    expect(buildEdition(2026, new Date('2026-04-05T22:30:00Z')).status).toBe('finished'); // Monday 00:30 in Huelva
+  });
+
+  it('spans Palm Sunday to Easter Sunday', () => {
+    expect(buildEdition(2027, new Date('2026-10-19T12:00:00Z'))).toEqual({
+      year: 2027,
+      startDate: '2027-03-21',
+      endDate: '2027-03-28',
+      status: 'upcoming',
+    });
+  });
+});
+
+describe('getCurrentHolyWeekYear', () => {
+  it('moves on to next year once Easter Sunday is over in Huelva', () => {
+    expect(getCurrentHolyWeekYear(new Date('2026-04-05T21:30:00Z'))).toBe(2026);
+    expect(getCurrentHolyWeekYear(new Date('2026-04-05T22:30:00Z'))).toBe(2027);
+    expect(getCurrentHolyWeekYear(new Date('2027-01-10T12:00:00Z'))).toBe(2027);
+  });
+});
@@ -0,0 +1,87 @@
+import { makeProcession } from '../__fixtures__/processions';
+import { migrateProcessionRoute, migrateRoutePoint } from '../itinerary';
+
+const at = { latitude: 37.2615, longitude: -6.9465 };
+
+describe('migrateRoutePoint', () => {
+  it('splits the time and kind out of a legacy name', () => {
+    expect(migrateRoutePoint({ ...at, name: '15:45 - Salida: Parroquia de San Pedro' })).toEqual({
+      ...at,
+      name: 'Parroquia de San Pedro',
+      kind: 'salida',
+      time: '15:45',
+    });
+  });
+
+  it('reads times after midnight and pads single-digit hours', () => {
+    expect(migrateRoutePoint({ ...at, name: '0:30 - Recogida' })).toMatchObject({
+      name: 'Recogida',
+      kind: 'entrada',
+      time: '00:30',
+    });
+    expect(migrateRoutePoint({ ...at, name: '01:15 - Calle Concepción' })).toMatchObject({
+      name: 'Calle Concepción',
+      kind: 'calle',
+      time: '01:15',
+      street: 'Calle Concepción',
+    });
+  });
+
+  it.each([
+    '24:15 - Calle Concepción', // Past 23:59, as some itineraries write the early hours
+    '25:10 - Plaza de las Monjas',
+    '18:75 - Calle Concepción',
+    '18:30 Calle Concepción', // No dash
+    '1830 - Calle Concepción',
+    '18:3 - Calle Concepción',
+  ])('leaves a malformed time in the name: %s', name => {
+    const migrated = migrateRoutePoint({ ...at, name });
+
+    expect(migrated.name).toBe(name);
+    expect(migrated.time).toBeUndefined();
+  });
+
+  it('keeps an explicit time over the one in the name', () => {
+    expect(migrateRoutePoint({ ...at, name: '15:45 - Calle Concepción', time: '16:00' })).toMatchObject({
+      name: 'Calle Concepción',
+      time: '16:00',
+    });
+  });
+
+  it('strips the kind when it is given in brackets', () => {
+    expect(migrateRoutePoint({ ...at, name: 'Capilla del Carmen (Entrada)' })).toMatchObject({
+      name: 'Capilla del Carmen',
+      kind: 'entrada',
+    });
+  });
+
+  it('recognises visits to churches', () => {
+    expect(migrateRoutePoint({ ...at, name: '20:10 - Santa Iglesia Catedral' }).kind).toBe('visita');
+  });
+
+  it('is idempotent', () => {
+    const once = migrateRoutePoint({ ...at, name: '22:00 - Carrera Oficial: Plaza de las Monjas' });
+
+    expect(once).toMatchObject({ name: 'Plaza de las Monjas', kind: 'carrera_oficial', time: '22:00' });
+    expect(migrateRoutePoint(once)).toBe(once);
+    expect(migrateRoutePoint({ ...once })).toEqual(once);
+  });
+});
+
+describe('migrateProcessionRoute', () => {
+  it('migrates every point and keeps the rest of the procession', () => {
+    const procession = makeProcession({
+      route: [
+        { ...at, name: '18:30 - Salida: Capilla del Carmen' },
+        { ...at, name: '01:00 - Entrada: Capilla del Carmen' },
+      ],
+    });
+    const migrated = migrateProcessionRoute(procession);
+
+    expect(migrated.route.map(point => [point.time, point.kind])).toEqual([
+      ['18:30', 'salida'],
+      ['01:00', 'entrada'],
+    ]);
+    expect(migrated.name).toBe(procession.name);
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  formatMadridTime,
+  getMadridDateTime,
+  getMadridMinutesSince,
+  madridToInstant,
+} from '../madrid-time';
+
+describe('madridToInstant', () => {
+  it('uses winter time before the last Sunday of March and summer time after', () => {
+    const date = { year: 2026, month: 3, day: 29 };
+
+    expect(madridToInstant(date, 90).toISOString()).toBe('2026-03-29T00:30:00.000Z'); // 01:30 CET
+    expect(madridToInstant(date, 210).toISOString()).toBe('2026-03-29T01:30:00.000Z'); // 03:30 CEST
+  });
+
+  it('moves a time skipped by the spring change an hour later', () => {
+    expect(madridToInstant({ year: 2027, month: 3, day: 28 }, 150).toISOString()).toBe('2027-03-28T01:30:00.000Z');
+  });
+
+  it('handles the last Sunday of October', () => {
+    const date = { year: 2026, month: 10, day: 25 };
+
+    expect(madridToInstant(date, 90).toISOString()).toBe('2026-10-24T23:30:00.000Z'); // 01:30 CEST
+    expect(madridToInstant(date, 240).toISOString()).toBe('2026-10-25T03:00:00.000Z'); // 04:00 CET
+  });
+
+  it('rolls minutes past 24h over into the next day', () => {
+    // 01:00 on Tuesday, as a Lunes Santo schedule writes it
+    expect(madridToInstant({ year: 2026, month: 3, day: 30 }, 1500).toISOString()).toBe('2026-03-30T23:00:00.000Z');
+  });
+
+  it('rolls over across the spring change', () => {
+    // Saturday night until 03:00 on Sunday, already summer time
+    expect(madridToInstant({ year: 2026, month: 3, day: 28 }, 1440 + 180).toISOString()).toBe('2026-03-29T01:00:00.000Z');
+  });
+});
+
+describe('getMadridMinutesSince', () => {
+  it('keeps counting past midnight', () => {
+    expect(getMadridMinutesSince({ year: 2026, month: 3, day: 30 }, new Date('2026-03-30T23:00:00Z'))).toBe(1500);
+  });
+
+  it('counts wall-clock minutes across the spring change', () => {
+    // 03:30 CEST on Sunday, from Saturday's midnight
+    expect(getMadridMinutesSince({ year: 2026, month: 3, day: 28 }, new Date('2026-03-29T01:30:00Z'))).toBe(1440 + 210);
+  });
+
+  it('gives negative values before the date', () => {
+    expect(getMadridMinutesSince({ year: 2026, month: 3, day: 30 }, new Date('2026-03-29T21:00:00Z'))).toBe(-60);
+  });
+
+  it('inverts madridToInstant away from clock changes', () => {
+    const date = { year: 2026, month: 4, day: 2 };
+    expect(getMadridMinutesSince(date, madridToInstant(date, 1530))).toBe(1530);
+  });
+});
+
+describe('getMadridDateTime / formatMadridTime', () => {
+  it('reads Huelva wall-clock time on both sides of the October change', () => {
+    expect(formatMadridTime(new Date('2026-10-25T00:30:00Z'))).toBe('02:30'); // CEST
+    expect(formatMadridTime(new Date('2026-10-25T01:30:00Z'))).toBe('02:30'); // CET, again
+    expect(getMadridDateTime(new Date('2026-10-24T22:30:00Z'))).toEqual({
+      date: { year: 2026, month: 10, day: 25 },
+      minuteOfDay: 30,
+    });
+  });
+});
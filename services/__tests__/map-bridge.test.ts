@@ -0,0 +1,99 @@
+import {
+  buildInjectedCommand,
+  generateMapBridgeJS,
+  serializeForScript,
+  type MapCommand,
+  type MapMarkerPayload,
+} from '../map-bridge';
+
+// Strings that have broken the map page before, or could
+const NASTY_STRINGS = [
+  "Nuestra Señora de l'Esperanza",
+  'La "Borriquita"',
+  '</script><script>alert(1)</script>',
+  '<img src=x onerror="alert(1)">',
+  '<b>Carrera</b> & Oficial',
+  'línea\u2028separada\u2029párrafo',
+  '\\"; alert(1); //',
+  '${alert(1)}',
+];
+
+// The page-side half of the bridge, run against a stub window
+function loadPageBridge() {
+  const window = { addEventListener: () => {}, parent: null };
+  return new Function('window', `${generateMapBridgeJS()}\nreturn MapBridge;`)(window);
+}
+
+// Decode what escapeHtml produces, as the browser would when rendering it
+function decodeHtml(html: string): string {
+  return html
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function marker(title: string): MapMarkerPayload {
+  return {
+    id: 'm1',
+    latitude: 37.26,
+    longitude: -6.95,
+    title,
+    description: title,
+    icon: { className: 'marker', emoji: '✝', size: 36, color: '#5D2E8C' },
+  };
+}
+
+describe('serializeForScript', () => {
+  it.each(NASTY_STRINGS)('keeps %j inert inside a <script> element', value => {
+    const serialized = serializeForScript({ title: value });
+
+    expect(serialized).not.toMatch(/[<>&\u2028\u2029]/);
+  });
+
+  it.each(NASTY_STRINGS)('round-trips %j', value => {
+    const serialized = serializeForScript({ title: value });
+
+    expect(new Function(`return ${serialized};`)()).toEqual({ title: value });
+  });
+});
+
+describe('buildInjectedCommand', () => {
+  it.each(NASTY_STRINGS)('delivers %j to the page unchanged', value => {
+    const command: MapCommand = { type: 'upsertMarkers', markers: [marker(value)] };
+    const received: MapCommand[] = [];
+    const window = { MapBridge: { receive: (message: MapCommand) => received.push(message) } };
+
+    const script = buildInjectedCommand(command);
+    expect(script).not.toMatch(/[<>\u2028\u2029]/);
+
+    new Function('window', script)(window);
+    expect(received).toEqual([command]);
+  });
+});
+
+describe('page escapeHtml', () => {
+  const bridge = loadPageBridge();
+
+  it.each(NASTY_STRINGS)('escapes %j into plain text', value => {
+    const escaped: string = bridge.escapeHtml(value);
+
+    expect(escaped).not.toMatch(/[<>"']/);
+    expect(decodeHtml(escaped)).toBe(value);
+  });
+
+  it('renders missing values as empty text', () => {
+    expect(bridge.escapeHtml(undefined)).toBe('');
+    expect(bridge.escapeHtml(null)).toBe('');
+  });
+
+  it.each(NASTY_STRINGS)('builds a popup for %j with only its own markup', value => {
+    const popup: string = bridge.buildPopup(marker(value));
+    const match = popup.match(/^<strong>([^<>]*)<\/strong><br\/><em>([^<>]*)<\/em>$/);
+
+    expect(match).not.toBeNull();
+    expect(decodeHtml(match![1])).toBe(value);
+    expect(decodeHtml(match![2])).toBe(value);
+  });
+});
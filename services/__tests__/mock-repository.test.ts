@@ -0,0 +1,42 @@
+import { pickCurrentEdition } from '../holy-week';
+import { MockRepository } from '../repositories/MockRepository';
+
+describe('MockRepository editions', () => {
+  it('keeps past editions apart from the current one', async () => {
+    const repository = new MockRepository();
+    const editions = await repository.getEditions();
+
+    expect(editions.map(edition => edition.year)).toEqual([2026, 2025]);
+    expect(pickCurrentEdition(editions)?.year).toBe(2026);
+
+    const past = await repository.getByEdition(2025);
+    expect(past.length).toBeGreaterThan(0);
+    expect(past.every(procession => procession.editionYear === 2025)).toBe(true);
+  });
+
+  it('creates processions in the edition the app follows', async () => {
+    const repository = new MockRepository();
+    const current = pickCurrentEdition(await repository.getEditions())!;
+
+    const created = await repository.create({
+      name: 'Nueva',
+      brotherhood: 'Hermandad Nueva',
+      brotherhoodId: 'nueva',
+      day: 'Lunes Santo',
+      departureTime: '19:00',
+      returnTime: '23:00',
+      parish: 'Parroquia',
+      cruzDeGuia: { latitude: 37.26, longitude: -6.95 },
+      pasos: [],
+      carreraOficial: {
+        start: { latitude: 37.2612, longitude: -6.947 },
+        end: { latitude: 37.2628, longitude: -6.9453 },
+      },
+      route: [],
+      description: '',
+    });
+
+    expect(created.editionYear).toBe(current.year);
+    expect((await repository.getByEdition(current.year)).map(p => p.id)).toContain(created.id);
+  });
+});
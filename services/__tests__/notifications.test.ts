@@ -0,0 +1,128 @@
+import { makeProcession } from '../__fixtures__/processions';
+import { DEFAULT_NOTIFICATION_SETTINGS, isInQuietHours, planNotifications } from '../notifications';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+// Planning never touches the native module; loading it only registers push listeners
+jest.mock('expo-notifications', () => ({}));
+
+// El Cautivo, Lunes Santo 2026: out at 18:30 (16:30Z), back at 01:00 (23:00Z)
+const procession = makeProcession();
+
+// Straight route due north: the Cruz de Guía passes the middle point at 21:45
+const geometry = [
+  { latitude: 37.26, longitude: -6.95 },
+  { latitude: 37.27, longitude: -6.95 },
+  { latitude: 37.28, longitude: -6.95 },
+];
+const routes = { [procession.id]: geometry };
+
+const plaza = { id: 'plaza', name: 'Plaza de las Monjas', ...geometry[1] };
+const entrada = { id: 'entrada', name: 'la entrada', ...geometry[2] };
+
+const settings = { ...DEFAULT_NOTIFICATION_SETTINGS, processionIds: [procession.id] };
+const morning = new Date('2026-03-30T08:00:00Z');
+
+function summarize(planned: ReturnType<typeof planNotifications>) {
+  return planned.map(notification => [notification.id, notification.date.toISOString()]);
+}
+
+describe('planNotifications', () => {
+  it('warns before the departure and before the procession reaches a saved spot', () => {
+    const planned = planNotifications([procession], routes, [plaza], settings, morning);
+
+    expect(summarize(planned)).toEqual([
+      ['2:departure', '2026-03-30T16:00:00.000Z'], // 18:00, 30 min before
+      ['2:approach:plaza:0', '2026-03-30T19:30:00.000Z'], // 21:30, 15 min before
+    ]);
+    expect(planned[0].title).toBe('El Cautivo sale en 30 minutos');
+    expect(planned[1].body).toBe('Cruz de Guía por Plaza de las Monjas hacia las 21:45');
+  });
+
+  it('dates passes after midnight on the next day', () => {
+    const planned = planNotifications([procession], routes, [entrada], settings, morning);
+
+    expect(planned[1]).toMatchObject({ id: '2:approach:entrada:0', body: 'Cruz de Guía por la entrada hacia las 01:00' });
+    expect(planned[1].date.toISOString()).toBe('2026-03-30T22:45:00.000Z'); // 00:45 on Tuesday
+  });
+
+  it('uses the lead times from the settings', () => {
+    const planned = planNotifications(
+      [procession],
+      routes,
+      [plaza],
+      { ...settings, departureLeadMinutes: 60, approachLeadMinutes: 5 },
+      morning
+    );
+
+    expect(summarize(planned)).toEqual([
+      ['2:departure', '2026-03-30T15:30:00.000Z'],
+      ['2:approach:plaza:0', '2026-03-30T19:40:00.000Z'],
+    ]);
+    expect(planned[1].title).toBe('El Cautivo pasará por tu sitio en 5 min');
+  });
+
+  it('only plans processions the user asked for', () => {
+    expect(planNotifications([procession], routes, [plaza], DEFAULT_NOTIFICATION_SETTINGS, morning)).toEqual([]);
+  });
+
+  it('skips the departure once the procession is out or the alert is past', () => {
+    const out = planNotifications([{ ...procession, status: 'in_progress' }], routes, [plaza], settings, morning);
+    const late = planNotifications([procession], routes, [plaza], settings, new Date('2026-03-30T17:00:00Z'));
+
+    expect(summarize(out)).toEqual([['2:approach:plaza:0', '2026-03-30T19:30:00.000Z']]);
+    expect(summarize(late)).toEqual([['2:approach:plaza:0', '2026-03-30T19:30:00.000Z']]);
+  });
+
+  it('plans nothing for finished processions', () => {
+    const afterReturn = new Date('2026-03-30T23:30:00Z');
+
+    expect(planNotifications([{ ...procession, status: 'finished' }], routes, [plaza], settings, morning)).toEqual([]);
+    expect(planNotifications([procession], routes, [entrada], settings, afterReturn)).toEqual([]);
+  });
+
+  it('only warns about the departure without a route', () => {
+    const planned = planNotifications([procession], {}, [plaza], settings, morning);
+
+    expect(summarize(planned)).toEqual([['2:departure', '2026-03-30T16:00:00.000Z']]);
+  });
+
+  it('drops alerts that fall in the quiet hours', () => {
+    const evening = planNotifications(
+      [procession],
+      routes,
+      [plaza, entrada],
+      { ...settings, quietHours: { start: '21:00', end: '22:00' } },
+      morning
+    );
+    const overnight = planNotifications(
+      [procession],
+      routes,
+      [plaza, entrada],
+      { ...settings, quietHours: { start: '23:00', end: '07:00' } },
+      morning
+    );
+
+    expect(evening.map(notification => notification.id)).toEqual(['2:departure', '2:approach:entrada:0']);
+    expect(overnight.map(notification => notification.id)).toEqual(['2:departure', '2:approach:plaza:0']);
+  });
+});
+
+describe('isInQuietHours', () => {
+  const quietHours = { start: '02:00', end: '08:00' };
+
+  it('reads the Huelva wall clock', () => {
+    expect(isInQuietHours(new Date('2026-03-30T00:30:00Z'), quietHours)).toBe(true); // 02:30 CEST
+    expect(isInQuietHours(new Date('2026-03-30T06:00:00Z'), quietHours)).toBe(false); // 08:00 CEST
+    expect(isInQuietHours(new Date('2026-01-15T06:30:00Z'), quietHours)).toBe(true); // 07:30 CET
+  });
+
+  it('handles quiet hours across midnight and none at all', () => {
+    const overnight = { start: '23:00', end: '07:00' };
+
+    expect(isInQuietHours(new Date('2026-03-30T21:30:00Z'), overnight)).toBe(true); // 23:30
+    expect(isInQuietHours(new Date('2026-03-30T20:30:00Z'), overnight)).toBe(false); // 22:30
+    expect(isInQuietHours(new Date('2026-03-30T00:30:00Z'), null)).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { makeProcession } from '../__fixtures__/processions';
+import { buildPaceModel, expectedTimeAtPoint, formatClockTime, parseClockTime } from '../pace-model';
+
+// Straight route due north, about 1.1 km between consecutive points
+const geometry = [
+  { latitude: 37.26, longitude: -6.95 },
+  { latitude: 37.27, longitude: -6.95 },
+  { latitude: 37.28, longitude: -6.95 },
+];
+
+describe('expectedTimeAtPoint', () => {
+  it('spreads the schedule evenly along the route without timed points', () => {
+    // 18:30 -> 01:00 is 390 minutes; the Cruz de Guía is halfway at 21:45
+    const model = buildPaceModel(makeProcession(), geometry);
+
+    expect(expectedTimeAtPoint(model, geometry, geometry[0])).toBe('18:30');
+    expect(expectedTimeAtPoint(model, geometry, geometry[1])).toBe('21:45');
+  });
+
+  it('wraps times past midnight instead of going over 24:00', () => {
+    const model = buildPaceModel(makeProcession(), geometry);
+
+    expect(model.departureMinute + model.totalDurationMinutes).toBe(1500);
+    expect(expectedTimeAtPoint(model, geometry, geometry[2])).toBe('01:00');
+    expect(expectedTimeAtPoint(model, geometry, { latitude: 37.29, longitude: -6.95 })).toBe('01:00');
+  });
+
+  it('follows timed itinerary points given after midnight', () => {
+    const procession = makeProcession({
+      route: [
+        { ...geometry[0], name: 'Capilla del Carmen', kind: 'salida', time: '18:30' },
+        { ...geometry[1], name: 'Plaza de las Monjas', kind: 'calle', time: '00:00' },
+        { ...geometry[2], name: 'Capilla del Carmen', kind: 'entrada', time: '01:00' },
+      ],
+    });
+    const model = buildPaceModel(procession, geometry);
+
+    expect(expectedTimeAtPoint(model, geometry, { latitude: 37.265, longitude: -6.95 })).toBe('21:15');
+    expect(expectedTimeAtPoint(model, geometry, geometry[1])).toBe('00:00');
+    expect(expectedTimeAtPoint(model, geometry, { latitude: 37.275, longitude: -6.95 })).toBe('00:30');
+  });
+
+  it('returns null without a route', () => {
+    const model = buildPaceModel(makeProcession(), []);
+
+    expect(expectedTimeAtPoint(model, [], geometry[0])).toBeNull();
+  });
+});
+
+describe('parseClockTime', () => {
+  it('reads "HH:mm" as minutes after midnight', () => {
+    expect(parseClockTime('18:30')).toBe(1110);
+    expect(parseClockTime(' 0:15 ')).toBe(15);
+  });
+
+  it('rejects malformed and out-of-range times', () => {
+    expect(parseClockTime('24:00')).toBeNull();
+    expect(parseClockTime('25:10')).toBeNull();
+    expect(parseClockTime('18:60')).toBeNull();
+    expect(parseClockTime('18.30')).toBeNull();
+    expect(parseClockTime('')).toBeNull();
+  });
+});
+
+describe('formatClockTime', () => {
+  it('wraps minutes past 24h and before midnight', () => {
+    expect(formatClockTime(1500)).toBe('01:00');
+    expect(formatClockTime(1440)).toBe('00:00');
+    expect(formatClockTime(-30)).toBe('23:30');
+    expect(formatClockTime(1109.6)).toBe('18:30');
+  });
+});
@@ -0,0 +1,71 @@
+import { makeProcession } from '../__fixtures__/processions';
+import {
+  getEffectiveStatus,
+  getProcessionInstant,
+  getProcessionMinute,
+  getProcessionSchedule,
+  getScheduledStatus,
+} from '../procession-schedule';
+
+describe('procession schedule across midnight', () => {
+  // El Cautivo, Lunes Santo 2026 (March 30): 18:30 to 01:00 on Tuesday
+  const cautivo = makeProcession();
+
+  it('puts a return before the departure on the next day', () => {
+    expect(getProcessionSchedule(cautivo)).toEqual({
+      departure: new Date('2026-03-30T16:30:00Z'),
+      return: new Date('2026-03-30T23:00:00Z'),
+    });
+    expect(getProcessionInstant(cautivo, '00:15')?.toISOString()).toBe('2026-03-30T22:15:00.000Z');
+  });
+
+  it('counts the minutes after midnight past 24h', () => {
+    expect(getProcessionMinute(cautivo, new Date('2026-03-30T22:30:00Z'))).toBe(1470);
+  });
+
+  it('is out from the departure until the last paso is back in', () => {
+    const withPasos = makeProcession({
+      pasos: [
+        { id: 'paso-1', name: 'Cristo', type: 'cristo', currentPosition: cautivo.cruzDeGuia },
+        { id: 'paso-2', name: 'Virgen', type: 'virgen', currentPosition: cautivo.cruzDeGuia },
+      ],
+    });
+
+    expect(getScheduledStatus(withPasos, new Date('2026-03-30T16:00:00Z'))).toBe('not_started');
+    expect(getScheduledStatus(withPasos, new Date('2026-03-30T22:30:00Z'))).toBe('in_progress'); // 00:30
+    // Cruz de Guía in at 01:00, the second paso an hour later
+    expect(getScheduledStatus(withPasos, new Date('2026-03-30T23:30:00Z'))).toBe('in_progress');
+    expect(getScheduledStatus(withPasos, new Date('2026-03-31T00:30:00Z'))).toBe('finished');
+  });
+});
+
+describe('procession schedule across the spring clock change', () => {
+  // Sábado Santo 2027 is March 27; the clocks go forward that night
+  const sabado = makeProcession({ editionYear: 2027, day: 'Sábado Santo', departureTime: '22:00', returnTime: '03:30' });
+
+  it('takes the departure in winter time and the return in summer time', () => {
+    expect(getProcessionSchedule(sabado)).toEqual({
+      departure: new Date('2027-03-27T21:00:00Z'),
+      return: new Date('2027-03-28T01:30:00Z'),
+    });
+  });
+
+  it('is finished once the summer-time return has passed', () => {
+    expect(getScheduledStatus(sabado, new Date('2027-03-28T01:00:00Z'))).toBe('in_progress');
+    expect(getScheduledStatus(sabado, new Date('2027-03-28T02:00:00Z'))).toBe('finished');
+  });
+});
+
+describe('getEffectiveStatus', () => {
+  const cautivo = makeProcession();
+  const duringProcession = new Date('2026-03-30T20:00:00Z');
+
+  it('follows the schedule while the live status says not_started', () => {
+    expect(getEffectiveStatus(cautivo, duringProcession)).toBe('in_progress');
+  });
+
+  it('keeps a live status', () => {
+    expect(getEffectiveStatus({ ...cautivo, status: 'returning' }, duringProcession)).toBe('returning');
+    expect(getEffectiveStatus({ ...cautivo, status: 'finished' }, duringProcession)).toBe('finished');
+  });
+});
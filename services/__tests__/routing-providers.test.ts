@@ -0,0 +1,38 @@
+import { createRoutingProvider, getProviderProfile } from '../routing-providers';
+
+describe('getProviderProfile', () => {
+  it('translates walking aliases to each provider', () => {
+    expect(getProviderProfile('valhalla', 'foot')).toBe('pedestrian');
+    expect(getProviderProfile('osrm', 'pedestrian')).toBe('foot');
+    expect(getProviderProfile('graphhopper', 'walking')).toBe('foot');
+  });
+
+  it('defaults to walking when no profile is configured', () => {
+    expect(getProviderProfile('valhalla', undefined)).toBe('pedestrian');
+  });
+
+  it('passes provider-specific profiles through', () => {
+    expect(getProviderProfile('graphhopper', 'hike')).toBe('hike');
+  });
+});
+
+describe('createRoutingProvider', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('asks Valhalla for pedestrian costing with the default config profile', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: false, status: 400 });
+    global.fetch = fetchMock;
+
+    const provider = createRoutingProvider({ provider: 'valhalla', baseUrl: 'http://valhalla', profile: 'foot' });
+    await provider.getRoute([
+      { latitude: 37.26, longitude: -6.95 },
+      { latitude: 37.27, longitude: -6.94 },
+    ]).catch(() => {});
+
+    expect(JSON.stringify(fetchMock.mock.calls[0])).toContain('pedestrian');
+  });
+});
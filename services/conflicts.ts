@@ -0,0 +1,153 @@
+/**
+ * Conflict Detection Service
+ * Finds streets where two processions of the same day meet: stretches both
+ * routes use, or corners where they cross, with the cortejos there at
+ * overlapping (or nearly overlapping) times
+ *
+ * A cortejo occupies a point of its route from the moment the Cruz de Guía
+ * arrives until the last paso has gone by; both come from the pace model.
+ */
+
+import type { Procession } from '@/types/data';
+import { findPolylinePasses, pointAtDistance, polylineLength } from './geometry';
+import { getStreetAtDistance, projectItinerary } from './itinerary';
+import { buildPaceModel, formatClockTime, getPasoDelayMinutes, timeAtDistance, type PaceModel } from './pace-model';
+import type { Coordinate } from './routing';
+
+// Distance between the points sampled along each route
+const SAMPLE_SPACING_METERS = 20;
+
+// Routes closer than this are on the same street
+const SAME_STREET_METERS = 25;
+
+// Cortejos this close in time still leave spectators stuck between them
+const TIME_BUFFER_MINUTES = 15;
+
+// Shorter shared stretches are reported as crossings
+const MIN_SHARED_STREET_METERS = 60;
+
+export type ConflictKind = 'shared_street' | 'crossing';
+
+export interface ProcessionConflict {
+  id: string;
+  processionIds: [string, string];
+  kind: ConflictKind;
+  coordinates: Coordinate[]; // Stretch of street, along the first procession's route
+  center: Coordinate;
+  street: string | null;
+  startMinute: number; // Minutes after midnight of the day (may exceed 24h)
+  endMinute: number;
+  startTime: string; // "HH:mm"
+  endTime: string;
+}
+
+interface Occupancy {
+  procession: Procession;
+  geometry: Coordinate[];
+  model: PaceModel;
+  tailDelay: number; // Minutes from the Cruz de Guía to the last paso
+}
+
+/**
+ * Time window (minutes after midnight) during which a cortejo occupies a point of its route
+ */
+function occupancyWindow(occupancy: Occupancy, distanceAlong: number): [number, number] {
+  const arrival = occupancy.model.departureMinute + timeAtDistance(occupancy.model, distanceAlong);
+  return [arrival, arrival + occupancy.tailDelay];
+}
+
+/**
+ * Conflicts between two processions, walking along the route of the first one
+ */
+function findPairConflicts(a: Occupancy, b: Occupancy): ProcessionConflict[] {
+  const conflicts: ProcessionConflict[] = [];
+  const totalDistance = polylineLength(a.geometry);
+  const itinerary = projectItinerary(a.procession, a.geometry);
+
+  // Current run of consecutive conflicting samples
+  let run: { from: number; to: number; start: number; end: number; points: Coordinate[] } | null = null;
+
+  const closeRun = () => {
+    if (!run) return;
+
+    const length = run.to - run.from;
+    const center = pointAtDistance(a.geometry, (run.from + run.to) / 2) ?? run.points[0];
+
+    conflicts.push({
+      id: `${a.procession.id}-${b.procession.id}-${Math.round(run.from)}`,
+      processionIds: [a.procession.id, b.procession.id],
+      kind: length >= MIN_SHARED_STREET_METERS ? 'shared_street' : 'crossing',
+      coordinates: run.points,
+      center,
+      street: getStreetAtDistance(itinerary, run.from),
+      startMinute: run.start,
+      endMinute: run.end,
+      startTime: formatClockTime(run.start),
+      endTime: formatClockTime(run.end),
+    });
+    run = null;
+  };
+
+  for (let distance = 0; distance <= totalDistance; distance += SAMPLE_SPACING_METERS) {
+    const point = pointAtDistance(a.geometry, distance);
+    if (!point) break;
+
+    const [startA, endA] = occupancyWindow(a, distance);
+
+    // Route B may pass here more than once; any pass close in time is a conflict
+    const clash = findPolylinePasses(b.geometry, point, SAME_STREET_METERS)
+      .map(pass => occupancyWindow(b, pass.distanceAlong))
+      .find(([startB, endB]) => startB <= endA + TIME_BUFFER_MINUTES && startA <= endB + TIME_BUFFER_MINUTES);
+
+    if (!clash) {
+      closeRun();
+      continue;
+    }
+
+    const start = Math.min(startA, clash[0]);
+    const end = Math.max(endA, clash[1]);
+
+    if (run) {
+      run.to = distance;
+      run.start = Math.min(run.start, start);
+      run.end = Math.max(run.end, end);
+      run.points.push(point);
+    } else {
+      run = { from: distance, to: distance, start, end, points: [point] };
+    }
+  }
+
+  closeRun();
+  return conflicts;
+}
+
+/**
+ * Conflicts between every pair of processions of a day, earliest first
+ *
+ * @param routes - Route geometry by procession id
+ */
+export function findDayConflicts(
+  processions: Procession[],
+  routes: { [processionId: string]: Coordinate[] }
+): ProcessionConflict[] {
+  const occupancies: Occupancy[] = processions
+    .filter(procession => (routes[procession.id] ?? []).length > 1)
+    .map(procession => {
+      const geometry = routes[procession.id];
+      return {
+        procession,
+        geometry,
+        model: buildPaceModel(procession, geometry),
+        tailDelay: Math.max(0, ...procession.pasos.map(paso => getPasoDelayMinutes(procession, paso))),
+      };
+    });
+
+  const conflicts: ProcessionConflict[] = [];
+  for (let i = 0; i < occupancies.length; i++) {
+    for (let j = i + 1; j < occupancies.length; j++) {
+      conflicts.push(...findPairConflicts(occupancies[i], occupancies[j]));
+    }
+  }
+
+  return conflicts.sort((x, y) => x.startMinute - y.startMinute);
+}
@@ -8,8 +8,11 @@ import type {
   CreateProcessionDto, 
   UpdateProcessionDto,
   ProcessionFilters,
-  AppConfig 
+  AppConfig,
+  SemanaSantaEdition,
+  Brotherhood
 } from '@/types/data';
+import { pickCurrentEdition } from './holy-week';
 import type { IProcessionRepository } from './repositories/IProcessionRepository';
 import { MockRepository } from './repositories/MockRepository';
 
@@ -21,6 +24,8 @@ export class DataService {
   private listeners: Set<DataChangeListener> = new Set();
   private cache: Procession[] | null = null;
   private configCache: AppConfig | null = null;
+  private editionsCache: SemanaSantaEdition[] | null = null;
+  private brotherhoodsCache: Brotherhood[] | null = null;
 
   private constructor() {
     // Initialize with MockRepository by default
@@ -53,6 +58,8 @@ export class DataService {
   clearCache(): void {
     this.cache = null;
     this.configCache = null;
+    this.editionsCache = null;
+    this.brotherhoodsCache = null;
   }
 
   /**
@@ -74,7 +81,25 @@ export class DataService {
   }
 
   /**
-   * Get all processions with optional filters
+   * Get every edition with processions, newest first
+   */
+  async getEditions(): Promise<SemanaSantaEdition[]> {
+    if (!this.editionsCache) {
+      this.editionsCache = await this.repository.getEditions();
+    }
+    return this.editionsCache;
+  }
+
+  /**
+   * Get the edition the app follows by default: in progress, else upcoming, else the latest
+   */
+  async getCurrentEdition(): Promise<SemanaSantaEdition | null> {
+    return pickCurrentEdition(await this.getEditions());
+  }
+
+  /**
+   * Get processions with optional filters
+   * Only the current edition's unless `filters.editionYear` asks for another one.
    */
   async getProcessions(filters?: ProcessionFilters): Promise<Procession[]> {
     // Use cache if available and no filters
@@ -82,7 +107,10 @@ export class DataService {
       return this.cache;
     }
 
-    const processions = await this.repository.getAll(filters);
+    const editionYear = filters?.editionYear ?? (await this.getCurrentEdition())?.year;
+    const processions = editionYear === undefined
+      ? await this.repository.getAll(filters)
+      : await this.repository.getByEdition(editionYear, filters);
     
     // Cache unfiltered results
     if (!filters) {
@@ -92,6 +120,24 @@ export class DataService {
     return processions;
   }
 
+  /**
+   * Get the brotherhood directory
+   */
+  async getBrotherhoods(): Promise<Brotherhood[]> {
+    if (!this.brotherhoodsCache) {
+      this.brotherhoodsCache = await this.repository.getBrotherhoods();
+    }
+    return this.brotherhoodsCache;
+  }
+
+  /**
+   * Get a single brotherhood by ID
+   */
+  async getBrotherhoodById(id: string): Promise<Brotherhood> {
+    const cached = this.brotherhoodsCache?.find(b => b.id === id);
+    return cached ?? await this.repository.getBrotherhoodById(id);
+  }
+
   /**
    * Get a single procession by ID
    */
@@ -151,10 +197,10 @@ export class DataService {
   }
 
   /**
-   * Get processions for a specific day
+   * Get processions for a specific day of the current edition
    */
   async getProcessionsByDay(day: string): Promise<Procession[]> {
-    return await this.repository.getByDay(day);
+    return await this.getProcessions({ day });
   }
 
   /**
@@ -0,0 +1,61 @@
+/**
+ * Deep Links
+ * Shareable links into the app, for WhatsApp and the like
+ *
+ * semanasantatracker://procession/{id}                  → procession detail
+ * semanasantatracker://day/{day}                        → calendar on that day
+ * semanasantatracker://map?procession={id}&t={HH:mm}    → map, optionally at a time
+ *
+ * The paths are expo-router routes, so on web the same paths work as URLs.
+ * Days go as slugs ("jueves-santo"); times after midnight as the clock shows them.
+ */
+
+import * as Linking from 'expo-linking';
+import { Share } from 'react-native';
+
+import type { Procession } from '@/types/data';
+import { getHolyDaySlug } from './holy-week';
+
+/**
+ * Link to a procession's detail screen
+ */
+export function getProcessionLink(processionId: string): string {
+  return Linking.createURL(`procession/${processionId}`);
+}
+
+/**
+ * Link to the calendar scrolled to a day of Holy Week
+ */
+export function getDayLink(day: string): string {
+  return Linking.createURL(`day/${getHolyDaySlug(day)}`);
+}
+
+/**
+ * Link to the map with a procession selected
+ * @param time - "HH:mm" to open the time simulation at; omit for live positions
+ */
+export function getMapLink(processionId: string, time?: string): string {
+  return Linking.createURL('map', { queryParams: { procession: processionId, t: time } });
+}
+
+/**
+ * Open the system share sheet with a message and a link
+ * Dismissing the sheet is not an error; platforms without sharing just log it.
+ */
+export async function shareLink(message: string, url: string): Promise<void> {
+  try {
+    await Share.share({ message: `${message}\n${url}` });
+  } catch (error) {
+    console.warn('Share failed:', error);
+  }
+}
+
+/**
+ * Share a procession: name, day and departure, with a link to its detail screen
+ */
+export async function shareProcession(procession: Procession): Promise<void> {
+  await shareLink(
+    `${procession.name} · ${procession.day}, salida a las ${procession.departureTime}`,
+    getProcessionLink(procession.id)
+  );
+}
@@ -0,0 +1,345 @@
+/**
+ * Geometry helpers for routes on the map
+ * Distances use the haversine formula; at city scale interpolating
+ * latitude/longitude linearly is accurate enough.
+ */
+
+import type { Coordinate } from './routing';
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Distance in meters between two coordinates
+ */
+export function haversineDistance(a: Coordinate, b: Coordinate): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Point at fraction `t` (0..1) of the way from `a` to `b`
+ */
+export function interpolateCoordinate(a: Coordinate, b: Coordinate, t: number): Coordinate {
+  return {
+    latitude: a.latitude + (b.latitude - a.latitude) * t,
+    longitude: a.longitude + (b.longitude - a.longitude) * t,
+  };
+}
+
+/**
+ * Total length in meters of a polyline
+ */
+export function polylineLength(coordinates: Coordinate[]): number {
+  let length = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    length += haversineDistance(coordinates[i - 1], coordinates[i]);
+  }
+  return length;
+}
+
+/**
+ * Distance along the polyline at each of its vertices (first is 0)
+ */
+export function cumulativeDistances(coordinates: Coordinate[]): number[] {
+  const distances = coordinates.length > 0 ? [0] : [];
+  for (let i = 1; i < coordinates.length; i++) {
+    distances.push(distances[i - 1] + haversineDistance(coordinates[i - 1], coordinates[i]));
+  }
+  return distances;
+}
+
+export interface PolylineProjection {
+  coordinate: Coordinate; // Closest point on the polyline
+  distanceAlong: number; // Meters from the start of the polyline to that point
+  distanceToLine: number; // Meters from the projected point to the polyline
+  segmentIndex: number; // Index of the segment's first vertex
+}
+
+interface SegmentProjection {
+  t: number; // Fraction along the segment of the closest point
+  distanceToLine: number;
+}
+
+/**
+ * Project a point onto the segment a-b
+ * Uses a local equirectangular projection in meters around the point.
+ */
+function projectOntoSegment(a: Coordinate, b: Coordinate, point: Coordinate): SegmentProjection {
+  const metersPerDegreeLat = 111320;
+  const metersPerDegreeLng = 111320 * Math.cos(toRadians(point.latitude));
+
+  const ax = (a.longitude - point.longitude) * metersPerDegreeLng;
+  const ay = (a.latitude - point.latitude) * metersPerDegreeLat;
+  const bx = (b.longitude - point.longitude) * metersPerDegreeLng;
+  const by = (b.latitude - point.latitude) * metersPerDegreeLat;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+
+  // Fraction along the segment of the point closest to the origin (our point)
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+
+  return { t, distanceToLine: Math.hypot(ax + dx * t, ay + dy * t) };
+}
+
+/**
+ * Project a point onto the closest segment of a polyline
+ *
+ * @param fromDistance - Ignore segments that end before this distance along the line.
+ *   Lets callers keep projections moving forward on routes that double back.
+ */
+export function projectOntoPolyline(
+  coordinates: Coordinate[],
+  point: Coordinate,
+  fromDistance: number = 0
+): PolylineProjection | null {
+  if (coordinates.length === 0) return null;
+
+  if (coordinates.length === 1) {
+    return {
+      coordinate: coordinates[0],
+      distanceAlong: 0,
+      distanceToLine: haversineDistance(coordinates[0], point),
+      segmentIndex: 0,
+    };
+  }
+
+  const distances = cumulativeDistances(coordinates);
+  let best: PolylineProjection | null = null;
+
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    if (distances[i + 1] < fromDistance) continue;
+
+    const { t, distanceToLine } = projectOntoSegment(coordinates[i], coordinates[i + 1], point);
+
+    if (!best || distanceToLine < best.distanceToLine) {
+      best = {
+        coordinate: interpolateCoordinate(coordinates[i], coordinates[i + 1], t),
+        distanceAlong: distances[i] + (distances[i + 1] - distances[i]) * t,
+        distanceToLine,
+        segmentIndex: i,
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Every time a polyline passes within `maxDistance` meters of a point
+ * Routes that go and come back along the same street pass a corner twice;
+ * each stretch of the line that stays near the point counts as one pass,
+ * reported at its closest point, in order along the line.
+ */
+export function findPolylinePasses(
+  coordinates: Coordinate[],
+  point: Coordinate,
+  maxDistance: number
+): PolylineProjection[] {
+  if (coordinates.length < 2) {
+    const single = projectOntoPolyline(coordinates, point);
+    return single && single.distanceToLine <= maxDistance ? [single] : [];
+  }
+
+  const distances = cumulativeDistances(coordinates);
+  const passes: PolylineProjection[] = [];
+  let current: PolylineProjection | null = null;
+
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    const { t, distanceToLine } = projectOntoSegment(coordinates[i], coordinates[i + 1], point);
+
+    if (distanceToLine > maxDistance) {
+      if (current) passes.push(current);
+      current = null;
+      continue;
+    }
+
+    if (!current || distanceToLine < current.distanceToLine) {
+      current = {
+        coordinate: interpolateCoordinate(coordinates[i], coordinates[i + 1], t),
+        distanceAlong: distances[i] + (distances[i + 1] - distances[i]) * t,
+        distanceToLine,
+        segmentIndex: i,
+      };
+    }
+  }
+
+  if (current) passes.push(current);
+  return passes;
+}
+
+/**
+ * Point located `distance` meters along the polyline (clamped to its ends)
+ */
+export function pointAtDistance(coordinates: Coordinate[], distance: number): Coordinate | null {
+  if (coordinates.length === 0) return null;
+
+  const distances = cumulativeDistances(coordinates);
+  if (distance <= 0) return coordinates[0];
+  if (distance >= distances[distances.length - 1]) return coordinates[coordinates.length - 1];
+
+  for (let i = 1; i < coordinates.length; i++) {
+    if (distances[i] >= distance) {
+      const segmentLength = distances[i] - distances[i - 1];
+      const t = segmentLength === 0 ? 0 : (distance - distances[i - 1]) / segmentLength;
+      return interpolateCoordinate(coordinates[i - 1], coordinates[i], t);
+    }
+  }
+
+  return coordinates[coordinates.length - 1];
+}
+
+/**
+ * Part of the polyline between two distances along it (clamped to its ends)
+ */
+export function slicePolyline(coordinates: Coordinate[], fromDistance: number, toDistance: number): Coordinate[] {
+  if (coordinates.length < 2 || toDistance <= fromDistance) return [];
+
+  const distances = cumulativeDistances(coordinates);
+  const start = pointAtDistance(coordinates, fromDistance);
+  const end = pointAtDistance(coordinates, toDistance);
+  if (!start || !end) return [];
+
+  const inner = coordinates.filter((_, i) => distances[i] > fromDistance && distances[i] < toDistance);
+  return [start, ...inner, end];
+}
+
+/**
+ * Points where two polylines cross each other
+ */
+export function findCrossings(a: Coordinate[], b: Coordinate[]): Coordinate[] {
+  const crossings: Coordinate[] = [];
+
+  for (let i = 0; i < a.length - 1; i++) {
+    for (let j = 0; j < b.length - 1; j++) {
+      const p = a[i];
+      const r = { latitude: a[i + 1].latitude - p.latitude, longitude: a[i + 1].longitude - p.longitude };
+      const q = b[j];
+      const s = { latitude: b[j + 1].latitude - q.latitude, longitude: b[j + 1].longitude - q.longitude };
+
+      // Solve p + t*r = q + u*s; at city scale degrees are a fine plane for this
+      const denominator = r.longitude * s.latitude - r.latitude * s.longitude;
+      if (denominator === 0) continue;
+
+      const qp = { latitude: q.latitude - p.latitude, longitude: q.longitude - p.longitude };
+      const t = (qp.longitude * s.latitude - qp.latitude * s.longitude) / denominator;
+      const u = (qp.longitude * r.latitude - qp.latitude * r.longitude) / denominator;
+
+      if (t >= 0 && t <= 1 && u >= 0 && u <= 1) {
+        crossings.push(interpolateCoordinate(a[i], a[i + 1], t));
+      }
+    }
+  }
+
+  return crossings;
+}
+
+/**
+ * Polygon (closed ring) covering roughly every point within `meters` of a polyline
+ * Built from the line offset to both sides and extended past its ends;
+ * on sharp turns the band is a little narrower than `meters`.
+ */
+export function bufferPolyline(coordinates: Coordinate[], meters: number): Coordinate[] {
+  if (coordinates.length === 0) return [];
+
+  // Work in local meters around the first point
+  const origin = coordinates[0];
+  const metersPerDegreeLat = 111320;
+  const metersPerDegreeLng = 111320 * Math.cos(toRadians(origin.latitude));
+  const points = coordinates.map(c => ({
+    x: (c.longitude - origin.longitude) * metersPerDegreeLng,
+    y: (c.latitude - origin.latitude) * metersPerDegreeLat,
+  }));
+  const toCoordinate = (x: number, y: number): Coordinate => ({
+    latitude: origin.latitude + y / metersPerDegreeLat,
+    longitude: origin.longitude + x / metersPerDegreeLng,
+  });
+
+  if (points.length === 1) {
+    // Square around a single point
+    const { x, y } = points[0];
+    return [
+      toCoordinate(x - meters, y - meters),
+      toCoordinate(x + meters, y - meters),
+      toCoordinate(x + meters, y + meters),
+      toCoordinate(x - meters, y + meters),
+      toCoordinate(x - meters, y - meters),
+    ];
+  }
+
+  // Unit direction of each segment
+  const directions = points.slice(1).map((to, i) => {
+    const from = points[i];
+    const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+    return { x: (to.x - from.x) / length, y: (to.y - from.y) / length };
+  });
+
+  const left: Coordinate[] = [];
+  const right: Coordinate[] = [];
+
+  points.forEach((point, i) => {
+    const before = directions[Math.max(0, i - 1)];
+    const after = directions[Math.min(directions.length - 1, i)];
+
+    // Average direction at the vertex, and its left-hand normal
+    const dx = before.x + after.x;
+    const dy = before.y + after.y;
+    const length = Math.hypot(dx, dy) || 1;
+    const normal = { x: -dy / length, y: dx / length };
+
+    // Push the end vertices outwards along the line
+    const extend = i === 0 ? -meters : i === points.length - 1 ? meters : 0;
+    const x = point.x + (dx / length) * extend;
+    const y = point.y + (dy / length) * extend;
+
+    left.push(toCoordinate(x + normal.x * meters, y + normal.y * meters));
+    right.push(toCoordinate(x - normal.x * meters, y - normal.y * meters));
+  });
+
+  const ring = [...left, ...right.reverse()];
+  ring.push(ring[0]);
+  return ring;
+}
+
+/**
+ * Douglas-Peucker simplification: drop the points closer than `toleranceMeters`
+ * to the line that would replace them. Both ends are always kept.
+ */
+export function simplifyPolyline(coordinates: Coordinate[], toleranceMeters: number): Coordinate[] {
+  if (coordinates.length < 3 || toleranceMeters <= 0) return coordinates;
+
+  const keep = new Uint8Array(coordinates.length);
+  keep[0] = 1;
+  keep[coordinates.length - 1] = 1;
+
+  // Ranges still to simplify, as [first, last] index pairs
+  const stack: [number, number][] = [[0, coordinates.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let farthest = -1;
+    let farthestDistance = toleranceMeters;
+
+    for (let i = first + 1; i < last; i++) {
+      const { distanceToLine } = projectOntoSegment(coordinates[first], coordinates[last], coordinates[i]);
+      if (distanceToLine > farthestDistance) {
+        farthest = i;
+        farthestDistance = distanceToLine;
+      }
+    }
+
+    if (farthest >= 0) {
+      keep[farthest] = 1;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return coordinates.filter((_, i) => keep[i]);
+}
@@ -0,0 +1,165 @@
+/**
+ * Holy Week Calendar
+ * Dates of Semana Santa for any year, from Palm Sunday to Easter Sunday
+ *
+ * Easter follows the Gregorian computus (the anonymous "Meeus/Jones/Butcher"
+ * algorithm). Which Holy Week is the current one depends on today's date in
+ * Huelva, so "today" is read in the Europe/Madrid time zone (services/madrid-time),
+ * whatever the device's zone.
+ */
+
+import type { HolyDay, SemanaSantaEdition } from '@/types/data';
+import { getMadridDate, type CalendarDate } from './madrid-time';
+
+export type { CalendarDate } from './madrid-time';
+
+// Days of Holy Week in order, as used in the `day` field of processions
+export const HOLY_DAYS: HolyDay[] = [
+  'Domingo de Ramos',
+  'Lunes Santo',
+  'Martes Santo',
+  'Miércoles Santo',
+  'Jueves Santo',
+  'Viernes Santo',
+  'Sábado Santo',
+  'Domingo de Resurrección',
+];
+
+const WEEKDAY_NAMES = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado'];
+
+export interface HolyWeekDay {
+  holyDay: HolyDay;
+  date: CalendarDate;
+  isoDate: string; // "YYYY-MM-DD"
+  weekday: string; // e.g. "Miércoles"
+  dayName: string; // e.g. "Miércoles 01"
+}
+
+/**
+ * Easter Sunday of a year (Gregorian calendar)
+ */
+export function getEasterSunday(year: number): CalendarDate {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return { year, month, day };
+}
+
+/**
+ * Date `days` days after another (negative to go back)
+ * Works in UTC so no zone or DST change can shift the day.
+ */
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+/**
+ * Order of two dates: negative if `a` is earlier, 0 if equal, positive if later
+ */
+export function compareDates(a: CalendarDate, b: CalendarDate): number {
+  return a.year - b.year || a.month - b.month || a.day - b.day;
+}
+
+export function formatIsoDate(date: CalendarDate): string {
+  return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
+
+/**
+ * The eight days of Holy Week of a year, Palm Sunday first
+ */
+export function getHolyWeek(year: number): HolyWeekDay[] {
+  const palmSunday = addDays(getEasterSunday(year), -7);
+
+  return HOLY_DAYS.map((holyDay, index) => {
+    const date = addDays(palmSunday, index);
+    const weekday = WEEKDAY_NAMES[index % 7];
+
+    return {
+      holyDay,
+      date,
+      isoDate: formatIsoDate(date),
+      weekday,
+      dayName: `${weekday} ${String(date.day).padStart(2, '0')}`,
+    };
+  });
+}
+
+/**
+ * Year of the Holy Week in progress or coming next, as seen in Huelva
+ * Once Easter Sunday is over, next year's edition is the one to show.
+ */
+export function getCurrentHolyWeekYear(instant: Date = new Date()): number {
+  const today = getMadridDate(instant);
+  return compareDates(today, getEasterSunday(today.year)) > 0 ? today.year + 1 : today.year;
+}
+
+/**
+ * Position of a procession day within Holy Week (unknown days last)
+ */
+export function getHolyDayIndex(day: string): number {
+  const index = HOLY_DAYS.indexOf(day as HolyDay);
+  return index >= 0 ? index : HOLY_DAYS.length;
+}
+
+/**
+ * URL-friendly form of a day of Holy Week: "Miércoles Santo" → "miercoles-santo"
+ */
+export function getHolyDaySlug(day: string): string {
+  return day.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Day of Holy Week named in a link, by slug or by name (case and accents don't matter)
+ */
+export function parseHolyDay(value: string): HolyDay | null {
+  const slug = getHolyDaySlug(value);
+  return HOLY_DAYS.find(day => getHolyDaySlug(day) === slug) ?? null;
+}
+
+/**
+ * Edition of a year, with its status as of an instant (in Huelva)
+ */
+export function buildEdition(year: number, instant: Date = new Date()): SemanaSantaEdition {
+  const easterSunday = getEasterSunday(year);
+  const palmSunday = addDays(easterSunday, -7);
+  const today = getMadridDate(instant);
+
+  let status: SemanaSantaEdition['status'] = 'in_progress';
+  if (compareDates(today, palmSunday) < 0) status = 'upcoming';
+  else if (compareDates(today, easterSunday) > 0) status = 'finished';
+
+  return {
+    year,
+    startDate: formatIsoDate(palmSunday),
+    endDate: formatIsoDate(easterSunday),
+    status,
+  };
+}
+
+/**
+ * Edition the app follows by default: the one in progress, else the next one
+ * with data, else the most recent past one
+ */
+export function pickCurrentEdition(editions: SemanaSantaEdition[]): SemanaSantaEdition | null {
+  const byYear = [...editions].sort((a, b) => a.year - b.year);
+
+  return (
+    byYear.find(edition => edition.status === 'in_progress') ??
+    byYear.find(edition => edition.status === 'upcoming') ??
+    byYear[byYear.length - 1] ??
+    null
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * Itinerary Service
+ * Structured itinerary points (scheduled time, kind, street) for procession routes
+ *
+ * Older data embeds the schedule in the point name, e.g.
+ * "15:45 - Salida: Parroquia de San Pedro". migrateRoutePoint() turns those
+ * into structured points; points that are already structured are left as they are.
+ */
+
+import type { Procession, RoutePoint, RoutePointKind } from '@/types/data';
+import { projectOntoPolyline } from './geometry';
+import type { Coordinate } from './routing';
+
+// Spanish labels for the UI
+export const ROUTE_POINT_KIND_LABELS: Record<RoutePointKind, string> = {
+  salida: 'Salida',
+  carrera_oficial: 'Carrera Oficial',
+  entrada: 'Entrada',
+  calle: 'Calle',
+  visita: 'Visita',
+};
+
+// Itinerary points farther than this from the route geometry can't be placed on it
+export const ITINERARY_MAX_OFFSET_METERS = 150;
+
+// "15:45 - rest of the name"
+const TIME_PREFIX = /^\s*(\d{1,2}):(\d{2})\s*-\s*/;
+
+// Street prefixes used in the itineraries
+const STREET_PREFIX = /^(c\/|calle|avda\.?|avenida|plaza|pza\.?|paseo|gran via|alameda|callejon|ronda)\s/;
+
+const CHURCH_WORDS = /\b(parroquia|iglesia|capilla|convento|catedral|basilica|santuario|ermita)\b/;
+
+/**
+ * Lowercase and strip accents so keyword checks match "Basílica" and "basilica" alike
+ */
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Guess the kind of an itinerary point from its label
+ */
+export function inferRoutePointKind(label: string): RoutePointKind {
+  const text = normalize(label);
+
+  if (/\bsalida\b/.test(text)) return 'salida';
+  if (/\b(entrada|recogida)\b/.test(text)) return 'entrada';
+  if (text.includes('carrera oficial')) return 'carrera_oficial';
+  if (/\bvisita\b/.test(text) || CHURCH_WORDS.test(text)) return 'visita';
+  return 'calle';
+}
+
+/**
+ * Convert a legacy time-prefixed point into a structured one
+ * Idempotent: running it again on its output changes nothing.
+ */
+export function migrateRoutePoint(point: RoutePoint): RoutePoint {
+  if (point.kind) return point;
+
+  let label = point.name;
+  let time = point.time;
+
+  const timeMatch = TIME_PREFIX.exec(label);
+  if (timeMatch) {
+    const hours = parseInt(timeMatch[1], 10);
+    const minutes = parseInt(timeMatch[2], 10);
+    if (hours <= 23 && minutes <= 59) {
+      time = time ?? `${String(hours).padStart(2, '0')}:${timeMatch[2]}`;
+      label = label.slice(timeMatch[0].length);
+    }
+  }
+
+  const kind = inferRoutePointKind(label);
+
+  // "Salida: Parroquia de San Pedro" / "Parroquia de San Pedro (Salida)" -> "Parroquia de San Pedro"
+  const place = label
+    .replace(/^(salida|entrada|recogida|carrera oficial|visita)\s*:\s*/i, '')
+    .replace(/\s*\((salida|entrada|recogida|carrera oficial|visita)\)\s*$/i, '')
+    .trim();
+  const name = place || label.trim();
+
+  const migrated: RoutePoint = {
+    latitude: point.latitude,
+    longitude: point.longitude,
+    name,
+    kind,
+  };
+  if (time) migrated.time = time;
+
+  const street = point.street ?? (STREET_PREFIX.test(normalize(name)) ? name : undefined);
+  if (street) migrated.street = street;
+
+  return migrated;
+}
+
+/**
+ * Migrate every itinerary point of a procession
+ */
+export function migrateProcessionRoute<T extends { route: RoutePoint[] }>(procession: T): T {
+  return { ...procession, route: procession.route.map(migrateRoutePoint) };
+}
+
+/**
+ * Itinerary points with a scheduled time, in route order
+ */
+export function getTimedRoutePoints(procession: Procession): (RoutePoint & { time: string })[] {
+  return procession.route.filter((point): point is RoutePoint & { time: string } => !!point.time);
+}
+
+export interface ProjectedRoutePoint {
+  point: RoutePoint;
+  distanceAlong: number; // meters from the start of the route geometry
+}
+
+/**
+ * Place the itinerary points along the route geometry, in order
+ * Each point is searched for only after the previous one, since routes often
+ * come back along the same streets. Points too far from the route are skipped.
+ */
+export function projectItinerary(procession: Procession, geometry: Coordinate[]): ProjectedRoutePoint[] {
+  const projected: ProjectedRoutePoint[] = [];
+  let fromDistance = 0;
+
+  for (const point of procession.route) {
+    const projection = projectOntoPolyline(geometry, point, fromDistance);
+    if (!projection || projection.distanceToLine > ITINERARY_MAX_OFFSET_METERS) continue;
+    if (projection.distanceAlong < fromDistance) continue;
+
+    projected.push({ point, distanceAlong: projection.distanceAlong });
+    fromDistance = projection.distanceAlong;
+  }
+
+  return projected;
+}
+
+/**
+ * Last street of the itinerary reached at a distance along the route
+ */
+export function getStreetAtDistance(itinerary: ProjectedRoutePoint[], distance: number): string | null {
+  let street: string | null = null;
+  for (const { point, distanceAlong } of itinerary) {
+    if (distanceAlong > distance) break;
+    if (point.street) street = point.street;
+  }
+  return street;
+}
+
+/**
+ * Format an itinerary point for lists: "15:45 · Salida · Parroquia de San Pedro"
+ */
+export function formatRoutePoint(point: RoutePoint): string {
+  const parts: string[] = [];
+  if (point.time) parts.push(point.time);
+  const kindLabel = point.kind && point.kind !== 'calle' ? ROUTE_POINT_KIND_LABELS[point.kind] : null;
+  if (kindLabel) parts.push(kindLabel);
+  if (point.name !== kindLabel) parts.push(point.name);
+  return parts.join(' · ');
+}
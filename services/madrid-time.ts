@@ -0,0 +1,108 @@
+/**
+ * Madrid Time
+ * Conversions between absolute instants and wall-clock time in Huelva (Europe/Madrid)
+ *
+ * Schedules are published as local "HH:mm" times, and the device may be in any
+ * zone, so every "what time is it there" question goes through here. Holy Week
+ * can straddle the switch to summer time (last Sunday of March): wall-clock
+ * minutes and elapsed minutes differ by an hour across it, and 02:00-03:00
+ * doesn't exist that night.
+ */
+
+export const MADRID_TIME_ZONE = 'Europe/Madrid';
+
+const MS_PER_MINUTE = 60 * 1000;
+export const MINUTES_PER_DAY = 24 * 60;
+
+// Calendar date with no time or zone attached
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export interface MadridDateTime {
+  date: CalendarDate;
+  minuteOfDay: number; // Wall-clock minutes after midnight, 0-1439
+}
+
+const formatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: MADRID_TIME_ZONE,
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  hourCycle: 'h23',
+});
+
+/**
+ * Date and wall-clock time in Huelva at an instant
+ */
+export function getMadridDateTime(instant: Date = new Date()): MadridDateTime {
+  const parts = formatter.formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+  return {
+    date: { year: part('year'), month: part('month'), day: part('day') },
+    // Some engines print midnight as hour 24 even with h23
+    minuteOfDay: (part('hour') % 24) * 60 + part('minute'),
+  };
+}
+
+/**
+ * Calendar date in Huelva at an instant
+ */
+export function getMadridDate(instant: Date = new Date()): CalendarDate {
+  return getMadridDateTime(instant).date;
+}
+
+/**
+ * Minutes Huelva is ahead of UTC at an instant (60 in winter, 120 in summer)
+ */
+function getMadridOffsetMinutes(instant: number): number {
+  const { date, minuteOfDay } = getMadridDateTime(new Date(instant));
+  const wallClockAsUtc = Date.UTC(date.year, date.month - 1, date.day) + minuteOfDay * MS_PER_MINUTE;
+  return Math.round((wallClockAsUtc - Math.floor(instant / MS_PER_MINUTE) * MS_PER_MINUTE) / MS_PER_MINUTE);
+}
+
+/**
+ * Instant at which Huelva's clocks show a time on a date
+ *
+ * @param minuteOfDay - Wall-clock minutes after midnight of `date`; values past
+ *   24h roll over into the following days ("01:00" of the next day is 1500)
+ * A time skipped by the spring change (e.g. 02:30) maps to the same time an
+ * hour later, when the clocks already show summer time.
+ */
+export function madridToInstant(date: CalendarDate, minuteOfDay: number): Date {
+  const wallClockAsUtc = Date.UTC(date.year, date.month - 1, date.day) + minuteOfDay * MS_PER_MINUTE;
+
+  // The offset depends on the instant we're looking for: guess, then check
+  const guess = wallClockAsUtc - getMadridOffsetMinutes(wallClockAsUtc) * MS_PER_MINUTE;
+  const offset = getMadridOffsetMinutes(guess);
+
+  return new Date(wallClockAsUtc - offset * MS_PER_MINUTE);
+}
+
+/**
+ * Wall-clock minutes in Huelva from the midnight that starts `date` to an instant
+ * Past midnight it keeps counting (1500 is 01:00 of the next day), so it lines up
+ * with schedule times that roll over; earlier instants give negative values.
+ */
+export function getMadridMinutesSince(date: CalendarDate, instant: Date = new Date()): number {
+  const now = getMadridDateTime(instant);
+  const days = Math.round(
+    (Date.UTC(now.date.year, now.date.month - 1, now.date.day) - Date.UTC(date.year, date.month - 1, date.day)) /
+      (MINUTES_PER_DAY * MS_PER_MINUTE)
+  );
+
+  return days * MINUTES_PER_DAY + now.minuteOfDay;
+}
+
+/**
+ * "HH:mm" wall-clock time in Huelva at an instant
+ */
+export function formatMadridTime(instant: Date): string {
+  const { minuteOfDay } = getMadridDateTime(instant);
+  return `${String(Math.floor(minuteOfDay / 60)).padStart(2, '0')}:${String(minuteOfDay % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,426 @@
+/**
+ * Map Bridge
+ * Typed two-way message protocol between React Native and the Leaflet page
+ *
+ * Events travel from the page to React Native through
+ * `window.ReactNativeWebView.postMessage` (native) or `window.parent.postMessage`
+ * (web iframe). Commands travel the other way through `injectJavaScript` (native)
+ * or `iframe.contentWindow.postMessage` (web).
+ */
+
+import type { PreloadProgress } from './tile-preloader';
+
+export interface MapCoordinate {
+  latitude: number;
+  longitude: number;
+}
+
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// Marker as rendered by the page, with its icon already resolved
+export interface MapMarkerPayload {
+  id: string;
+  groupId?: string;
+  latitude: number;
+  longitude: number;
+  title?: string;
+  description?: string;
+  icon: {
+    className: string;
+    emoji: string;
+    size: number;
+    color: string;
+  };
+}
+
+// Styled piece of a route, geometry as an encoded polyline (precision 5)
+export interface MapRouteSegmentPayload {
+  polyline: string;
+  color: string;
+  weight: number;
+  opacity: number;
+  dashArray?: string; // e.g. '6 8'
+}
+
+// Route as rendered by the page: the whole line (tap target) drawn as styled segments
+export interface MapRoutePayload {
+  id: string;
+  polyline: string;
+  segments: MapRouteSegmentPayload[];
+}
+
+export interface MapTheme {
+  primaryColor: string;
+  secondaryColor: string;
+}
+
+// Messages sent by the map page
+export type MapEvent =
+  | { type: 'ready' }
+  | { type: 'markerPress'; markerId: string; groupId?: string }
+  | { type: 'routePress'; routeId: string; coordinate: MapCoordinate }
+  | { type: 'popupOpen'; markerId: string; groupId?: string }
+  | { type: 'moveEnd'; center: MapCoordinate; zoom: number; bounds: MapBounds }
+  | { type: 'zoomEnd'; zoom: number }
+  | { type: 'longPress'; coordinate: MapCoordinate }
+  | { type: 'preloadProgress'; progress: PreloadProgress }
+  | { type: 'error'; message: string; source?: string };
+
+// Commands sent to the map page
+export type MapCommand =
+  | { type: 'setView'; center: MapCoordinate; zoom?: number }
+  | { type: 'fitBounds'; bounds: MapBounds }
+  | { type: 'openPopup'; markerId: string }
+  | { type: 'closePopup' }
+  | { type: 'startPreload' }
+  | { type: 'upsertMarkers'; markers: MapMarkerPayload[] }
+  | { type: 'removeMarkers'; ids: string[] }
+  | { type: 'upsertRoutes'; routes: MapRoutePayload[] }
+  | { type: 'removeRoutes'; ids: string[] }
+  | { type: 'setTheme'; theme: MapTheme };
+
+const MAP_EVENT_TYPES: MapEvent['type'][] = [
+  'ready',
+  'markerPress',
+  'routePress',
+  'popupOpen',
+  'moveEnd',
+  'zoomEnd',
+  'longPress',
+  'preloadProgress',
+  'error',
+];
+
+/**
+ * Parse a raw message posted by the map page
+ * Returns null for anything that is not a map event (other iframes, extensions...)
+ */
+export function parseMapEvent(data: unknown): MapEvent | null {
+  if (typeof data !== 'string') return null;
+
+  try {
+    const message = JSON.parse(data);
+    if (message && MAP_EVENT_TYPES.includes(message.type)) {
+      return message as MapEvent;
+    }
+  } catch {
+    // Not JSON, not ours
+  }
+
+  return null;
+}
+
+export interface PayloadDiff<T> {
+  upserts: T[];
+  removals: string[];
+  snapshot: Map<string, string>;
+}
+
+/**
+ * Compare the payloads already sent to the page with the next ones
+ * `sent` maps each id to the serialized payload the page currently shows
+ */
+export function diffPayloads<T extends { id: string }>(
+  sent: Map<string, string>,
+  next: T[]
+): PayloadDiff<T> {
+  const snapshot = new Map<string, string>();
+  const upserts: T[] = [];
+
+  for (const item of next) {
+    const serialized = JSON.stringify(item);
+    snapshot.set(item.id, serialized);
+    if (sent.get(item.id) !== serialized) {
+      upserts.push(item);
+    }
+  }
+
+  const removals = Array.from(sent.keys()).filter(id => !snapshot.has(id));
+
+  return { upserts, removals, snapshot };
+}
+
+/**
+ * Serialize a value as a JavaScript literal that is safe to embed in page source,
+ * either inside an HTML <script> element or in a script passed to injectJavaScript
+ *
+ * JSON.stringify alone is not enough: a "</script>" inside a string closes the
+ * element early, and U+2028/U+2029 are line terminators for older JS engines.
+ */
+export function serializeForScript(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003C')
+    .replace(/>/g, '\\u003E')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Build the script injected into the native WebView to deliver a command
+ * The trailing `true` avoids silent failures on iOS
+ */
+export function buildInjectedCommand(command: MapCommand): string {
+  return `window.MapBridge && window.MapBridge.receive(${serializeForScript(command)}); true;`;
+}
+
+/**
+ * Generates the JavaScript code for the bridge to be embedded in the WebView
+ * Must run after Leaflet and the polyline decoder (generatePolylineDecoderJS)
+ * are loaded, and before the map is created
+ */
+export function generateMapBridgeJS(): string {
+  return `
+    // ============================================
+    // React Native <-> Leaflet bridge
+    // ============================================
+
+    const MapBridge = {
+      map: null,
+      markers: {},
+      routes: {},
+
+      // Send an event to React Native
+      post(message) {
+        const data = JSON.stringify(message);
+        if (window.ReactNativeWebView) {
+          window.ReactNativeWebView.postMessage(data);
+        } else if (window.parent && window.parent !== window) {
+          window.parent.postMessage(data, '*');
+        }
+      },
+
+      toCoordinate(latlng) {
+        return { latitude: latlng.lat, longitude: latlng.lng };
+      },
+
+      // Attach map-level events once the map exists
+      attach(map) {
+        const self = this;
+        this.map = map;
+
+        map.on('moveend', function() {
+          const bounds = map.getBounds();
+          self.post({
+            type: 'moveEnd',
+            center: self.toCoordinate(map.getCenter()),
+            zoom: map.getZoom(),
+            bounds: {
+              north: bounds.getNorth(),
+              south: bounds.getSouth(),
+              east: bounds.getEast(),
+              west: bounds.getWest()
+            }
+          });
+        });
+
+        map.on('zoomend', function() {
+          self.post({ type: 'zoomEnd', zoom: map.getZoom() });
+        });
+
+        // Leaflet turns a touch long-press into contextmenu (tapHold)
+        map.on('contextmenu', function(event) {
+          self.post({ type: 'longPress', coordinate: self.toCoordinate(event.latlng) });
+        });
+
+        this.post({ type: 'ready' });
+      },
+
+      // Every string that ends up in markup goes through here
+      escapeHtml(value) {
+        return String(value === undefined || value === null ? '' : value)
+          .replace(/&/g, '&amp;')
+          .replace(/</g, '&lt;')
+          .replace(/>/g, '&gt;')
+          .replace(/"/g, '&quot;')
+          .replace(/'/g, '&#39;');
+      },
+
+      // Colors are interpolated into style attributes: only accept plain color values
+      safeColor(value) {
+        const color = String(value);
+        return /^(#[0-9a-fA-F]{3,8}|rgba?\\([0-9.,%\\s]+\\)|[a-zA-Z]+)$/.test(color) ? color : '#5D2E8C';
+      },
+
+      buildIcon(icon) {
+        const size = Number(icon.size) || 36;
+        const outer = size + 16;
+        const color = this.safeColor(icon.color);
+        return L.divIcon({
+          className: this.escapeHtml(icon.className),
+          html: '<div class="marker-icon" style="background:' + color + ';width:' + size + 'px;height:' + size + 'px;"><span>' + this.escapeHtml(icon.emoji) + '</span></div>' +
+            '<div class="marker-pulse" style="border-color:' + color + ';width:' + outer + 'px;height:' + outer + 'px;"></div>',
+          iconSize: [outer, outer],
+          iconAnchor: [outer / 2, outer / 2]
+        });
+      },
+
+      buildPopup(payload) {
+        return '<strong>' + this.escapeHtml(payload.title) + '</strong>' +
+          (payload.description ? '<br/><em>' + this.escapeHtml(payload.description) + '</em>' : '');
+      },
+
+      // Add a marker or update it in place, so live positions move without flicker
+      upsertMarker(payload) {
+        const self = this;
+        let marker = this.markers[payload.id];
+
+        if (marker) {
+          marker.setLatLng([payload.latitude, payload.longitude]);
+          if (JSON.stringify(marker.payload.icon) !== JSON.stringify(payload.icon)) {
+            marker.setIcon(this.buildIcon(payload.icon));
+          }
+        } else {
+          marker = L.marker([payload.latitude, payload.longitude], { icon: this.buildIcon(payload.icon) });
+          marker.on('click', function() {
+            self.post({ type: 'markerPress', markerId: payload.id, groupId: marker.payload.groupId });
+          });
+          marker.on('popupopen', function() {
+            self.post({ type: 'popupOpen', markerId: payload.id, groupId: marker.payload.groupId });
+          });
+          marker.addTo(this.map);
+          this.markers[payload.id] = marker;
+        }
+
+        if (!payload.title) {
+          marker.unbindPopup();
+        } else if (marker.getPopup()) {
+          marker.setPopupContent(this.buildPopup(payload));
+        } else {
+          marker.bindPopup(this.buildPopup(payload));
+        }
+
+        marker.payload = payload;
+      },
+
+      removeMarker(id) {
+        if (!this.markers[id]) return;
+        this.markers[id].remove();
+        delete this.markers[id];
+      },
+
+      segmentStyle(segment) {
+        return {
+          color: this.safeColor(segment.color),
+          weight: segment.weight,
+          opacity: segment.opacity,
+          dashArray: /^[0-9.,\\s]+$/.test(segment.dashArray || '') ? segment.dashArray : null,
+          lineCap: 'round',
+          lineJoin: 'round'
+        };
+      },
+
+      // Add a route or update its geometry and style in place
+      upsertRoute(payload) {
+        const self = this;
+        const existing = this.routes[payload.id];
+
+        if (existing && existing.lines.length === payload.segments.length) {
+          payload.segments.forEach(function(segment, index) {
+            existing.lines[index].setLatLngs(decodePolyline(segment.polyline)).setStyle(self.segmentStyle(segment));
+          });
+          existing.hitArea.setLatLngs(decodePolyline(payload.polyline));
+          return;
+        }
+
+        // Number of segments changed (e.g. the procession went out): rebuild
+        if (existing) this.removeRoute(payload.id);
+
+        const lines = payload.segments.map(function(segment) {
+          return L.polyline(decodePolyline(segment.polyline), self.segmentStyle(segment)).addTo(self.map);
+        });
+
+        // Invisible wide line on top so thin routes are easy to tap
+        const hitArea = L.polyline(decodePolyline(payload.polyline), { weight: 24, opacity: 0 }).addTo(this.map);
+        hitArea.on('click', function(event) {
+          self.post({ type: 'routePress', routeId: payload.id, coordinate: self.toCoordinate(event.latlng) });
+        });
+
+        this.routes[payload.id] = { lines: lines, hitArea: hitArea };
+      },
+
+      removeRoute(id) {
+        if (!this.routes[id]) return;
+        this.routes[id].lines.forEach(function(line) { line.remove(); });
+        this.routes[id].hitArea.remove();
+        delete this.routes[id];
+      },
+
+      setTheme(theme) {
+        const root = document.documentElement;
+        root.style.setProperty('--primary-color', theme.primaryColor);
+        root.style.setProperty('--secondary-color', theme.secondaryColor);
+      },
+
+      // Handle a command from React Native
+      receive(command) {
+        if (!this.map || !command) return;
+
+        try {
+          switch (command.type) {
+            case 'setView':
+              this.map.setView(
+                [command.center.latitude, command.center.longitude],
+                command.zoom !== undefined ? command.zoom : this.map.getZoom()
+              );
+              break;
+            case 'fitBounds':
+              this.map.fitBounds([
+                [command.bounds.south, command.bounds.west],
+                [command.bounds.north, command.bounds.east]
+              ]);
+              break;
+            case 'openPopup':
+              if (this.markers[command.markerId]) this.markers[command.markerId].openPopup();
+              break;
+            case 'closePopup':
+              this.map.closePopup();
+              break;
+            case 'startPreload':
+              if (window.TilePreloader) window.TilePreloader.preloadAll();
+              break;
+            case 'upsertMarkers':
+              command.markers.forEach(payload => this.upsertMarker(payload));
+              break;
+            case 'removeMarkers':
+              command.ids.forEach(id => this.removeMarker(id));
+              break;
+            case 'upsertRoutes':
+              command.routes.forEach(payload => this.upsertRoute(payload));
+              break;
+            case 'removeRoutes':
+              command.ids.forEach(id => this.removeRoute(id));
+              break;
+            case 'setTheme':
+              this.setTheme(command.theme);
+              break;
+          }
+        } catch (error) {
+          this.post({ type: 'error', message: String(error && error.message || error), source: command.type });
+        }
+      }
+    };
+
+    window.MapBridge = MapBridge;
+
+    // Commands from the parent window (web iframe)
+    window.addEventListener('message', function(event) {
+      if (event.source !== window.parent || typeof event.data !== 'string') return;
+      try {
+        MapBridge.receive(JSON.parse(event.data));
+      } catch (e) {
+        // Not a command
+      }
+    });
+
+    // Report uncaught page errors
+    window.addEventListener('error', function(event) {
+      MapBridge.post({ type: 'error', message: String(event.message), source: 'page' });
+    });
+  `;
+}
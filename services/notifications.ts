@@ -0,0 +1,298 @@
+/**
+ * Notifications Service
+ * Local notifications before a procession goes out and before it passes by a saved spot
+ *
+ * "La Borriquita sale en 30 minutos" comes from the departure time;
+ * "El Cautivo pasará por tu sitio en 15 min" from the expected passing time at
+ * the spot (see passing-times). Only processions the user asked to be warned
+ * about are scheduled, and nothing falls in the quiet hours.
+ *
+ * Everything is rescheduled from scratch whenever the data service notifies
+ * changes, so moved times or a suspended procession never leave stale alerts.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+import type { Procession } from '@/types/data';
+import { dataService } from './data-service';
+import { getMadridDateTime, madridToInstant } from './madrid-time';
+import { parseClockTime } from './pace-model';
+import { getPassingTimes } from './passing-times';
+import { getProcessionDate, getProcessionInstant, getScheduledStatus } from './procession-schedule';
+import { getCachedRoute } from './route-cache';
+import type { Coordinate } from './routing';
+import { loadSavedSpots, type SavedSpot } from './saved-spots';
+
+const SETTINGS_KEY = '@SemanaSanta:notificationSettings';
+const ANDROID_CHANNEL_ID = 'processions';
+// Marks our notifications, so rescheduling never cancels anyone else's
+const NOTIFICATION_SOURCE = 'procession-alerts';
+// Data changes come in bursts (refresh + updates); reschedule once they settle
+const RESCHEDULE_DELAY_MS = 1000;
+
+export interface QuietHours {
+  start: string; // "HH:mm", Huelva time
+  end: string; // "HH:mm"; earlier than start when they span midnight
+}
+
+export interface NotificationSettings {
+  departureLeadMinutes: number;
+  approachLeadMinutes: number;
+  quietHours: QuietHours | null;
+  processionIds: string[]; // Processions the user wants to be warned about
+}
+
+export const DEFAULT_QUIET_HOURS: QuietHours = { start: '02:00', end: '08:00' };
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  departureLeadMinutes: 30,
+  approachLeadMinutes: 15,
+  quietHours: null,
+  processionIds: [],
+};
+
+export interface PlannedNotification {
+  id: string;
+  processionId: string;
+  kind: 'departure' | 'approach';
+  title: string;
+  body: string;
+  date: Date;
+}
+
+type SettingsListener = (settings: NotificationSettings) => void;
+
+const settingsListeners = new Set<SettingsListener>();
+
+/**
+ * Load the notification settings (defaults if none saved)
+ */
+export async function loadNotificationSettings(): Promise<NotificationSettings> {
+  try {
+    const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_NOTIFICATION_SETTINGS, ...JSON.parse(stored) } : DEFAULT_NOTIFICATION_SETTINGS;
+  } catch (error) {
+    console.warn('[Notifications] Failed to load settings:', error);
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+}
+
+/**
+ * Save the notification settings and reschedule with them
+ */
+export async function saveNotificationSettings(settings: NotificationSettings): Promise<void> {
+  settingsListeners.forEach(listener => listener(settings));
+  try {
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('[Notifications] Failed to save settings:', error);
+  }
+  await rescheduleNotifications();
+}
+
+/**
+ * Subscribe to settings changes, so every screen shows the same toggles
+ */
+export function subscribeToNotificationSettings(listener: SettingsListener): () => void {
+  settingsListeners.add(listener);
+  return () => {
+    settingsListeners.delete(listener);
+  };
+}
+
+/**
+ * Whether an instant falls in the quiet hours, on the Huelva wall clock
+ */
+export function isInQuietHours(instant: Date, quietHours: QuietHours | null): boolean {
+  if (!quietHours) return false;
+
+  const start = parseClockTime(quietHours.start);
+  const end = parseClockTime(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+
+  const { minuteOfDay } = getMadridDateTime(instant);
+  return start < end
+    ? minuteOfDay >= start && minuteOfDay < end
+    : minuteOfDay >= start || minuteOfDay < end;
+}
+
+/**
+ * Notifications due for some processions, earliest first
+ * Pure: takes everything it needs, so it can be recomputed on every change.
+ *
+ * @param routes - Route geometry by procession id; without it there are no spot alerts
+ */
+export function planNotifications(
+  processions: Procession[],
+  routes: { [processionId: string]: Coordinate[] },
+  spots: SavedSpot[],
+  settings: NotificationSettings,
+  now: Date = new Date()
+): PlannedNotification[] {
+  const planned: PlannedNotification[] = [];
+  const lead = (instant: Date, minutes: number) => new Date(instant.getTime() - minutes * 60 * 1000);
+
+  for (const procession of processions) {
+    if (!settings.processionIds.includes(procession.id)) continue;
+    // Already back in, whatever the schedule says
+    if (procession.status === 'finished' || getScheduledStatus(procession, now) === 'finished') continue;
+
+    // Departure
+    const departure = getProcessionInstant(procession, procession.departureTime);
+    if (departure && procession.status === 'not_started') {
+      planned.push({
+        id: `${procession.id}:departure`,
+        processionId: procession.id,
+        kind: 'departure',
+        title: `${procession.name} sale en ${settings.departureLeadMinutes} minutos`,
+        body: `Salida a las ${procession.departureTime} desde ${procession.parish}`,
+        date: lead(departure, settings.departureLeadMinutes),
+      });
+    }
+
+    // Passing by each saved spot
+    const date = getProcessionDate(procession);
+    const geometry = routes[procession.id] ?? [];
+    if (!date) continue;
+
+    for (const spot of spots) {
+      getPassingTimes(procession, geometry, spot).forEach((pass, index) => {
+        planned.push({
+          id: `${procession.id}:approach:${spot.id}:${index}`,
+          processionId: procession.id,
+          kind: 'approach',
+          title: `${procession.name} pasará por tu sitio en ${settings.approachLeadMinutes} min`,
+          body: `Cruz de Guía por ${spot.name} hacia las ${pass.time}`,
+          date: lead(madridToInstant(date, pass.minute), settings.approachLeadMinutes),
+        });
+      });
+    }
+  }
+
+  return planned
+    .filter(notification => notification.date > now && !isInQuietHours(notification.date, settings.quietHours))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Ask for permission to notify, once
+ * @returns Whether notifications can be shown
+ */
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (Platform.OS === 'web') return false;
+
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+/**
+ * Replace our scheduled notifications with the ones due for the given processions
+ * Routes come from the route cache only: the map and detail screens fill it,
+ * and scheduling must not wait on the routing server.
+ */
+export async function scheduleNotifications(processions: Procession[]): Promise<void> {
+  if (Platform.OS === 'web') return;
+
+  try {
+    const [settings, spots] = await Promise.all([loadNotificationSettings(), loadSavedSpots()]);
+
+    const routes: { [processionId: string]: Coordinate[] } = {};
+    if (spots.length > 0) {
+      await Promise.all(
+        processions
+          .filter(procession => settings.processionIds.includes(procession.id))
+          .map(async procession => {
+            const cached = await getCachedRoute(procession.id, procession.route);
+            if (cached) routes[procession.id] = cached.coordinates;
+          })
+      );
+    }
+
+    const planned = planNotifications(processions, routes, spots, settings);
+
+    // Cancel only what we scheduled
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      scheduled
+        .filter(request => request.content.data?.source === NOTIFICATION_SOURCE)
+        .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+    );
+
+    if (planned.length === 0) return;
+    if (!(await requestNotificationPermission())) return;
+
+    await Promise.all(
+      planned.map(notification =>
+        Notifications.scheduleNotificationAsync({
+          identifier: notification.id,
+          content: {
+            title: notification.title,
+            body: notification.body,
+            data: { source: NOTIFICATION_SOURCE, processionId: notification.processionId },
+          },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: notification.date,
+            channelId: ANDROID_CHANNEL_ID,
+          },
+        })
+      )
+    );
+  } catch (error) {
+    console.warn('[Notifications] Failed to schedule notifications:', error);
+  }
+}
+
+/**
+ * Reschedule with the current processions (after settings or saved spots change)
+ */
+export async function rescheduleNotifications(): Promise<void> {
+  try {
+    await scheduleNotifications(await dataService.getProcessions());
+  } catch (error) {
+    console.warn('[Notifications] Failed to load processions:', error);
+  }
+}
+
+/**
+ * Set up notifications and keep them in step with the data service
+ * @returns Function that stops rescheduling
+ */
+export function startNotificationScheduling(): () => void {
+  if (Platform.OS === 'web') return () => {};
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+      shouldShowBanner: true,
+      shouldShowList: true,
+    }),
+  });
+
+  if (Platform.OS === 'android') {
+    Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+      name: 'Procesiones',
+      importance: Notifications.AndroidImportance.HIGH,
+    }).catch(error => console.warn('[Notifications] Failed to create channel:', error));
+  }
+
+  rescheduleNotifications();
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const unsubscribe = dataService.subscribe(processions => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => scheduleNotifications(processions), RESCHEDULE_DELAY_MS);
+  });
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    unsubscribe();
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Street Occupancy Service
+ * Which stretches of street the cortejos of a day fill at a given time:
+ * from the last paso to the Cruz de Guía along each route
+ */
+
+import type { Procession } from '@/types/data';
+import { slicePolyline } from './geometry';
+import { buildPaceModel, distanceAtTime, getPasoDelayMinutes } from './pace-model';
+import { getProcessionProgress, getRouteSections } from './route-progress';
+import type { Coordinate } from './routing';
+
+export interface OccupiedStreet {
+  processionId: string;
+  coordinates: Coordinate[];
+}
+
+/**
+ * Stretch of route a procession occupies at a time of the day, per its schedule
+ *
+ * @param minuteOfDay - Minutes after midnight of the procession day (may exceed 24h)
+ */
+export function getScheduledOccupancy(
+  procession: Procession,
+  geometry: Coordinate[],
+  minuteOfDay: number
+): Coordinate[] {
+  if (geometry.length < 2) return [];
+
+  const model = buildPaceModel(procession, geometry);
+  const minutesOut = minuteOfDay - model.departureMinute;
+  const tailDelay = Math.max(0, ...procession.pasos.map(paso => getPasoDelayMinutes(procession, paso)));
+
+  // Not out yet, or the last paso is already back
+  if (minutesOut < 0 || minutesOut - tailDelay > model.totalDurationMinutes) return [];
+
+  return slicePolyline(geometry, distanceAtTime(model, minutesOut - tailDelay), distanceAtTime(model, minutesOut));
+}
+
+/**
+ * Streets occupied by the processions of a day at a time of the day
+ * Processions on the street use their live positions when `live` is set
+ * (the requested time is now); the rest follow their schedule.
+ *
+ * @param routes - Route geometry by procession id
+ */
+export function getOccupiedStreets(
+  processions: Procession[],
+  routes: { [processionId: string]: Coordinate[] },
+  minuteOfDay: number,
+  live: boolean = false
+): OccupiedStreet[] {
+  return processions
+    .map(procession => {
+      const geometry = routes[procession.id] ?? [];
+      const isOnStreet = procession.status === 'in_progress' || procession.status === 'returning';
+
+      if (live && isOnStreet && geometry.length > 1) {
+        const sections = getRouteSections(geometry, getProcessionProgress(procession, geometry));
+        if (sections) return { processionId: procession.id, coordinates: sections.cortejo };
+      }
+
+      return {
+        processionId: procession.id,
+        coordinates: getScheduledOccupancy(procession, geometry, minuteOfDay),
+      };
+    })
+    .filter(street => street.coordinates.length > 1);
+}
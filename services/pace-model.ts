@@ -0,0 +1,231 @@
+/**
+ * Procession Pace Model
+ * Estimates how a procession moves along its route from its schedule
+ *
+ * A cortejo walks at 1-2 km/h with long stops, nothing like a pedestrian,
+ * so router durations are useless. Instead, the scheduled times (departure,
+ * timed itinerary points, return) are pinned to distances along the route
+ * geometry and the procession is assumed to move at constant speed between them.
+ */
+
+import type { Paso, Procession } from '@/types/data';
+import { projectItinerary } from './itinerary';
+import { cumulativeDistances, pointAtDistance, projectOntoPolyline } from './geometry';
+import type { Coordinate } from './routing';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Gap between consecutive pasos when the data doesn't say (Cruz de Guía -> first paso too)
+export const DEFAULT_PASO_DELAY_MINUTES = 30;
+
+export interface PaceSegment {
+  fromDistance: number; // meters along the route
+  toDistance: number;
+  startMinute: number; // minutes after departure
+  endMinute: number;
+  speedKmh: number;
+}
+
+export interface PaceModel {
+  departureMinute: number; // minutes after midnight of the procession day
+  totalDistance: number; // meters
+  totalDurationMinutes: number;
+  segments: PaceSegment[];
+}
+
+/**
+ * Parse a "HH:mm" time into minutes after midnight
+ */
+export function parseClockTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes from departure to a clock time, rolling over midnight
+ * ("01:00" after an "18:30" departure is 390 minutes later, not -1050)
+ */
+function minutesAfter(departureMinute: number, clockMinute: number): number {
+  return (clockMinute - departureMinute + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
+
+/**
+ * Build the pace model of a procession along its route geometry
+ *
+ * @param geometry - Street-following route; the raw waypoints work too
+ */
+export function buildPaceModel(procession: Procession, geometry: Coordinate[]): PaceModel {
+  const departureMinute = parseClockTime(procession.departureTime) ?? 0;
+  const returnMinute = parseClockTime(procession.returnTime) ?? departureMinute;
+  const distances = cumulativeDistances(geometry);
+  const totalDistance = distances.length > 0 ? distances[distances.length - 1] : 0;
+  const totalDurationMinutes = minutesAfter(departureMinute, returnMinute);
+
+  // Anchors: (distance along route, minutes after departure), both increasing
+  const anchors: { distance: number; minute: number }[] = [{ distance: 0, minute: 0 }];
+
+  for (const { point, distanceAlong } of projectItinerary(procession, geometry)) {
+    const clockMinute = point.time ? parseClockTime(point.time) : null;
+    if (clockMinute === null) continue;
+
+    const minute = minutesAfter(departureMinute, clockMinute);
+    const previous = anchors[anchors.length - 1];
+    if (minute <= previous.minute || minute >= totalDurationMinutes) continue;
+    if (distanceAlong <= previous.distance) continue;
+
+    anchors.push({ distance: distanceAlong, minute });
+  }
+
+  anchors.push({ distance: totalDistance, minute: totalDurationMinutes });
+
+  const segments: PaceSegment[] = [];
+  for (let i = 1; i < anchors.length; i++) {
+    const from = anchors[i - 1];
+    const to = anchors[i];
+    const hours = (to.minute - from.minute) / 60;
+
+    segments.push({
+      fromDistance: from.distance,
+      toDistance: to.distance,
+      startMinute: from.minute,
+      endMinute: to.minute,
+      speedKmh: hours > 0 ? (to.distance - from.distance) / 1000 / hours : 0,
+    });
+  }
+
+  return { departureMinute, totalDistance, totalDurationMinutes, segments };
+}
+
+/**
+ * Minutes after departure at which the Cruz de Guía reaches a distance along the route
+ */
+export function timeAtDistance(model: PaceModel, distance: number): number {
+  if (distance <= 0) return 0;
+  if (distance >= model.totalDistance) return model.totalDurationMinutes;
+
+  const segment = model.segments.find(s => distance <= s.toDistance) ?? model.segments[model.segments.length - 1];
+  const length = segment.toDistance - segment.fromDistance;
+  const t = length > 0 ? (distance - segment.fromDistance) / length : 0;
+
+  return segment.startMinute + (segment.endMinute - segment.startMinute) * t;
+}
+
+/**
+ * Distance along the route reached by the Cruz de Guía a number of minutes after departure
+ */
+export function distanceAtTime(model: PaceModel, minutesAfterDeparture: number): number {
+  if (minutesAfterDeparture <= 0) return 0;
+  if (minutesAfterDeparture >= model.totalDurationMinutes) return model.totalDistance;
+
+  const segment =
+    model.segments.find(s => minutesAfterDeparture <= s.endMinute) ?? model.segments[model.segments.length - 1];
+  const span = segment.endMinute - segment.startMinute;
+  const t = span > 0 ? (minutesAfterDeparture - segment.startMinute) / span : 0;
+
+  return segment.fromDistance + (segment.toDistance - segment.fromDistance) * t;
+}
+
+/**
+ * Expected position of the Cruz de Guía a number of minutes after departure
+ */
+export function positionAtTime(
+  model: PaceModel,
+  geometry: Coordinate[],
+  minutesAfterDeparture: number
+): Coordinate | null {
+  return pointAtDistance(geometry, distanceAtTime(model, minutesAfterDeparture));
+}
+
+/**
+ * Minutes a paso passes any point of the route after the Cruz de Guía
+ * Pasos follow the same pace, shifted in time.
+ */
+export function getPasoDelayMinutes(procession: Procession, paso: Paso): number {
+  if (paso.delayMinutes !== undefined) return paso.delayMinutes;
+
+  const index = procession.pasos.findIndex(p => p.id === paso.id);
+  return (Math.max(0, index) + 1) * DEFAULT_PASO_DELAY_MINUTES;
+}
+
+/**
+ * Expected clock time ("HH:mm") at which the Cruz de Guía passes the point of
+ * the route closest to `point`
+ */
+export function expectedTimeAtPoint(model: PaceModel, geometry: Coordinate[], point: Coordinate): string | null {
+  const projection = projectOntoPolyline(geometry, point);
+  if (!projection) return null;
+
+  return formatClockTime(model.departureMinute + timeAtDistance(model, projection.distanceAlong));
+}
+
+/**
+ * Format minutes after midnight as "HH:mm", wrapping past midnight
+ */
+export function formatClockTime(minutes: number): string {
+  const wrapped = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(wrapped / 60);
+  const mins = wrapped % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+}
+
+export interface ScheduledPositions {
+  cruzDeGuia: Coordinate | null; // null when not on the street at that time
+  pasos: { paso: Paso; coordinate: Coordinate | null }[];
+}
+
+/**
+ * Where the schedule places the Cruz de Guía and each paso at a time of the day
+ *
+ * @param minuteOfDay - Minutes after midnight of the procession day; values past
+ *   24h are the early hours of the next day
+ */
+export function getScheduledPositions(
+  procession: Procession,
+  geometry: Coordinate[],
+  minuteOfDay: number,
+  model: PaceModel = buildPaceModel(procession, geometry)
+): ScheduledPositions {
+  const positionAfter = (delayMinutes: number) => {
+    const minutesOut = minuteOfDay - model.departureMinute - delayMinutes;
+    if (minutesOut < 0 || minutesOut > model.totalDurationMinutes) return null;
+    return positionAtTime(model, geometry, minutesOut);
+  };
+
+  return {
+    cruzDeGuia: positionAfter(0),
+    pasos: procession.pasos.map(paso => ({
+      paso,
+      coordinate: positionAfter(getPasoDelayMinutes(procession, paso)),
+    })),
+  };
+}
+
+/**
+ * Time span of a day's processions, from the earliest departure to the moment the
+ * last paso is expected back, in minutes after midnight (may exceed 24h)
+ */
+export function getDayTimeRange(processions: Procession[]): { start: number; end: number } | null {
+  if (processions.length === 0) return null;
+
+  let start = Infinity;
+  let end = -Infinity;
+
+  for (const procession of processions) {
+    const departure = parseClockTime(procession.departureTime);
+    if (departure === null) continue;
+
+    const returnMinute = parseClockTime(procession.returnTime) ?? departure;
+    const lastDelay = Math.max(0, ...procession.pasos.map(paso => getPasoDelayMinutes(procession, paso)));
+
+    start = Math.min(start, departure);
+    end = Math.max(end, departure + minutesAfter(departure, returnMinute) + lastDelay);
+  }
+
+  return start <= end ? { start, end } : null;
+}
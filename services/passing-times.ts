@@ -0,0 +1,79 @@
+/**
+ * Passing Times Service
+ * "When does it pass by here?": expected times at which the processions of a day
+ * reach a point of the map, from their route geometry and scheduled itinerary
+ */
+
+import type { Paso, Procession } from '@/types/data';
+import { findPolylinePasses } from './geometry';
+import { buildPaceModel, formatClockTime, getPasoDelayMinutes, timeAtDistance } from './pace-model';
+import type { Coordinate } from './routing';
+
+// A spectator this far from the route can still see the procession go by
+export const MAX_SPECTATOR_DISTANCE_METERS = 80;
+
+export interface PasoPassingTime {
+  paso: Paso;
+  minute: number; // Minutes after midnight of the procession day (may exceed 24h)
+  time: string; // "HH:mm"
+}
+
+export interface PassingTime {
+  procession: Procession;
+  coordinate: Coordinate; // Where the procession passes, on its route
+  distanceToRoute: number; // meters
+  distanceAlong: number; // meters from the start of the route
+  minute: number; // Cruz de Guía, minutes after midnight of the procession day
+  time: string; // Cruz de Guía, "HH:mm"
+  pasos: PasoPassingTime[];
+}
+
+/**
+ * Expected passing times of a procession near a point
+ * One entry per time the route passes by (routes often come back the same way).
+ *
+ * @param geometry - Street-following route of the procession
+ */
+export function getPassingTimes(
+  procession: Procession,
+  geometry: Coordinate[],
+  point: Coordinate,
+  maxDistance: number = MAX_SPECTATOR_DISTANCE_METERS
+): PassingTime[] {
+  if (geometry.length < 2) return [];
+
+  const model = buildPaceModel(procession, geometry);
+
+  return findPolylinePasses(geometry, point, maxDistance).map(pass => {
+    const minute = model.departureMinute + timeAtDistance(model, pass.distanceAlong);
+
+    return {
+      procession,
+      coordinate: pass.coordinate,
+      distanceToRoute: pass.distanceToLine,
+      distanceAlong: pass.distanceAlong,
+      minute,
+      time: formatClockTime(minute),
+      pasos: procession.pasos.map(paso => {
+        const pasoMinute = minute + getPasoDelayMinutes(procession, paso);
+        return { paso, minute: pasoMinute, time: formatClockTime(pasoMinute) };
+      }),
+    };
+  });
+}
+
+/**
+ * Expected passing times of every procession of a day near a point, earliest first
+ *
+ * @param routes - Route geometry by procession id
+ */
+export function getDayPassingTimes(
+  processions: Procession[],
+  routes: { [processionId: string]: Coordinate[] },
+  point: Coordinate,
+  maxDistance: number = MAX_SPECTATOR_DISTANCE_METERS
+): PassingTime[] {
+  return processions
+    .flatMap(procession => getPassingTimes(procession, routes[procession.id] ?? [], point, maxDistance))
+    .sort((a, b) => a.minute - b.minute);
+}
@@ -0,0 +1,129 @@
+/**
+ * Encoded polyline support
+ * Google's polyline algorithm, as returned by Valhalla and OSRM (precision 6 on request)
+ * or GraphHopper and Google (precision 5). Routes are also sent to the map page
+ * encoded, which keeps long geometries far smaller than [lat, lng] literals.
+ *
+ * Format reference: https://developers.google.com/maps/documentation/utilities/polylinealgorithm
+ */
+
+import type { Coordinate } from './routing';
+
+/**
+ * Decode an encoded polyline into coordinates
+ *
+ * @param encoded - Encoded polyline string
+ * @param precision - Number of decimal places encoded (6 for Valhalla and OSRM's polyline6,
+ *   which OSRMProvider requests; 5 for GraphHopper, Google and OSRM's plain polyline)
+ */
+export function decodePolyline(encoded: string, precision: number = 5): Coordinate[] {
+  const factor = Math.pow(10, precision);
+  const coordinates: Coordinate[] = [];
+  let index = 0;
+  let latitude = 0;
+  let longitude = 0;
+
+  while (index < encoded.length) {
+    const deltas: number[] = [];
+
+    // Each point is a latitude delta followed by a longitude delta
+    for (let component = 0; component < 2; component++) {
+      let result = 0;
+      let shift = 0;
+      let byte: number;
+
+      do {
+        byte = encoded.charCodeAt(index++) - 63;
+        result |= (byte & 0x1f) << shift;
+        shift += 5;
+      } while (byte >= 0x20);
+
+      deltas.push(result & 1 ? ~(result >> 1) : result >> 1);
+    }
+
+    latitude += deltas[0];
+    longitude += deltas[1];
+    coordinates.push({ latitude: latitude / factor, longitude: longitude / factor });
+  }
+
+  return coordinates;
+}
+
+/**
+ * Encode coordinates as a polyline string
+ *
+ * @param precision - Number of decimal places to keep (5 is ~1 m, plenty for drawing)
+ */
+export function encodePolyline(coordinates: Coordinate[], precision: number = 5): string {
+  const factor = Math.pow(10, precision);
+  let encoded = '';
+  let previousLatitude = 0;
+  let previousLongitude = 0;
+
+  const encodeValue = (value: number) => {
+    let remaining = value < 0 ? ~(value << 1) : value << 1;
+    while (remaining >= 0x20) {
+      encoded += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63);
+      remaining >>= 5;
+    }
+    encoded += String.fromCharCode(remaining + 63);
+  };
+
+  for (const coordinate of coordinates) {
+    // Round each point, not each delta, so errors don't add up along the line
+    const latitude = Math.round(coordinate.latitude * factor);
+    const longitude = Math.round(coordinate.longitude * factor);
+
+    encodeValue(latitude - previousLatitude);
+    encodeValue(longitude - previousLongitude);
+
+    previousLatitude = latitude;
+    previousLongitude = longitude;
+  }
+
+  return encoded;
+}
+
+/**
+ * Generates the JavaScript code for the map page to decode polylines
+ * Same algorithm as decodePolyline, returning Leaflet [lat, lng] pairs
+ */
+export function generatePolylineDecoderJS(): string {
+  return `
+    // ============================================
+    // Encoded polyline decoder
+    // ============================================
+
+    function decodePolyline(encoded, precision) {
+      const factor = Math.pow(10, precision === undefined ? 5 : precision);
+      const latlngs = [];
+      let index = 0;
+      let latitude = 0;
+      let longitude = 0;
+
+      while (index < encoded.length) {
+        const deltas = [];
+
+        for (let component = 0; component < 2; component++) {
+          let result = 0;
+          let shift = 0;
+          let byte;
+
+          do {
+            byte = encoded.charCodeAt(index++) - 63;
+            result |= (byte & 0x1f) << shift;
+            shift += 5;
+          } while (byte >= 0x20);
+
+          deltas.push(result & 1 ? ~(result >> 1) : result >> 1);
+        }
+
+        latitude += deltas[0];
+        longitude += deltas[1];
+        latlngs.push([latitude / factor, longitude / factor]);
+      }
+
+      return latlngs;
+    }
+  `;
+}
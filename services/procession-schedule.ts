@@ -0,0 +1,125 @@
+/**
+ * Procession Schedule
+ * Absolute instants for a procession's published times
+ *
+ * `day` and the "HH:mm" times are wall-clock times in Huelva on that day of the
+ * procession's edition. Times earlier than the departure belong to the next
+ * calendar day: El Cautivo leaves at "18:30" on Lunes Santo and is back at
+ * "01:00" on Tuesday. Conversions go through services/madrid-time, so they
+ * hold whatever the device's zone and across the change to summer time.
+ */
+
+import type { Procession } from '@/types/data';
+import { getHolyWeek } from './holy-week';
+import {
+  MINUTES_PER_DAY,
+  getMadridDateTime,
+  getMadridMinutesSince,
+  madridToInstant,
+  type CalendarDate,
+} from './madrid-time';
+import { getPasoDelayMinutes, parseClockTime } from './pace-model';
+
+// Spanish labels for the UI
+export const PROCESSION_STATUS_LABELS: Record<Procession['status'], string> = {
+  not_started: 'Por salir',
+  in_progress: 'En calle',
+  returning: 'Regresando',
+  finished: 'Recogida',
+};
+
+export interface ProcessionSchedule {
+  departure: Date;
+  return: Date; // When the last paso is back in, after the Cruz de Guía
+}
+
+/**
+ * Calendar date the procession goes out, from its edition and day of Holy Week
+ */
+export function getProcessionDate(procession: Procession): CalendarDate | null {
+  if (!procession.editionYear) return null;
+  return getHolyWeek(procession.editionYear).find(day => day.holyDay === procession.day)?.date ?? null;
+}
+
+/**
+ * Instant of a "HH:mm" time of the procession (departure, return, itinerary point...)
+ * Rolls over to the next day when the time is earlier than the departure.
+ */
+export function getProcessionInstant(procession: Procession, time: string): Date | null {
+  const date = getProcessionDate(procession);
+  const departure = parseClockTime(procession.departureTime);
+  const minute = parseClockTime(time);
+  if (!date || departure === null || minute === null) return null;
+
+  return madridToInstant(date, minute < departure ? minute + MINUTES_PER_DAY : minute);
+}
+
+/**
+ * Departure and return instants of a procession
+ */
+export function getProcessionSchedule(procession: Procession): ProcessionSchedule | null {
+  const departure = getProcessionInstant(procession, procession.departureTime);
+  const cruzDeGuiaBack = getProcessionInstant(procession, procession.returnTime);
+  if (!departure || !cruzDeGuiaBack) return null;
+
+  const lastDelay = Math.max(0, ...procession.pasos.map(paso => getPasoDelayMinutes(procession, paso)));
+
+  return {
+    departure,
+    return: new Date(cruzDeGuiaBack.getTime() + lastDelay * 60 * 1000),
+  };
+}
+
+/**
+ * Wall-clock minutes from the midnight that starts the procession day to an instant
+ * The same scale as the pace model (services/pace-model), so after midnight it
+ * keeps counting past 24h. Without a known date, the time of day in Huelva is
+ * taken as on the procession's night: before its departure counts as after midnight.
+ */
+export function getProcessionMinute(procession: Procession, instant: Date = new Date()): number {
+  const date = getProcessionDate(procession);
+  if (date) return getMadridMinutesSince(date, instant);
+
+  const { minuteOfDay } = getMadridDateTime(instant);
+  const departure = parseClockTime(procession.departureTime) ?? 0;
+  return minuteOfDay < departure ? minuteOfDay + MINUTES_PER_DAY : minuteOfDay;
+}
+
+/**
+ * Status the schedule gives a procession at an instant
+ * The live `status` field is the reference while a procession is out;
+ * this is for when it's missing or stale. Pasos count until the last one is in.
+ */
+export function getScheduledStatus(
+  procession: Procession,
+  instant: Date = new Date()
+): 'not_started' | 'in_progress' | 'finished' {
+  const schedule = getProcessionSchedule(procession);
+  if (!schedule) return 'not_started';
+
+  if (instant < schedule.departure) return 'not_started';
+  if (instant <= schedule.return) return 'in_progress';
+  return 'finished';
+}
+
+/**
+ * Status to show for a procession: the live one while it has it, else the schedule's
+ * A procession still marked not_started is taken as out (or back in) once its times pass.
+ */
+export function getEffectiveStatus(procession: Procession, instant: Date = new Date()): Procession['status'] {
+  return procession.status === 'not_started' ? getScheduledStatus(procession, instant) : procession.status;
+}
+
+/**
+ * Chronological order of departures (for sorting), across days and editions
+ * Processions with no usable schedule go last, by their departure string.
+ */
+export function compareByDeparture(a: Procession, b: Procession): number {
+  const departureA = getProcessionInstant(a, a.departureTime);
+  const departureB = getProcessionInstant(b, b.departureTime);
+
+  if (departureA && departureB) return departureA.getTime() - departureB.getTime();
+  if (departureA) return -1;
+  if (departureB) return 1;
+  return a.departureTime.localeCompare(b.departureTime);
+}
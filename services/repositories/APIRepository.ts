@@ -11,9 +11,15 @@ import type {
   AppConfig,
   ProcessionResponse,
   SingleProcessionResponse,
-  ApiError
+  ApiError,
+  SemanaSantaEdition,
+  Brotherhood,
+  BrotherhoodResponse,
+  SingleBrotherhoodResponse
 } from '@/types/data';
-import type { IProcessionRepository } from './IProcessionRepository';
+import { migrateProcessionRoute } from '@/services/itinerary';
+import { compareByDeparture, getScheduledStatus } from '@/services/procession-schedule';
+import { NotFoundError, type IProcessionRepository } from './IProcessionRepository';
 
 // TODO: Configure your API base URL
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'https://api.example.com';
@@ -83,9 +89,11 @@ export class APIRepository implements IProcessionRepository {
 
     const params = new URLSearchParams();
     
+    if (filters.editionYear !== undefined) params.append('edition', String(filters.editionYear));
     if (filters.day) params.append('day', filters.day);
     if (filters.status) params.append('status', filters.status);
     if (filters.brotherhood) params.append('brotherhood', filters.brotherhood);
+    if (filters.brotherhoodId) params.append('brotherhoodId', filters.brotherhoodId);
 
     const queryString = params.toString();
     return queryString ? `?${queryString}` : '';
@@ -103,6 +111,67 @@ export class APIRepository implements IProcessionRepository {
     );
 
     const data = await this.handleResponse<ProcessionResponse>(response);
+    return data.data.map(migrateProcessionRoute).sort(compareByDeparture);
+  }
+
+  async getEditions(): Promise<SemanaSantaEdition[]> {
+    // TODO: Implement API call
+    const response = await fetch(
+      `${this.baseUrl}/editions`,
+      {
+        method: 'GET',
+        headers: this.getHeaders(),
+      }
+    );
+
+    const data = await this.handleResponse<{ data: SemanaSantaEdition[] }>(response);
+    return data.data;
+  }
+
+  async getByEdition(year: number, filters?: ProcessionFilters): Promise<Procession[]> {
+    // TODO: Implement API call
+    const queryString = this.buildQueryString({ ...filters, editionYear: undefined });
+    const response = await fetch(
+      `${this.baseUrl}/editions/${year}/processions${queryString}`,
+      {
+        method: 'GET',
+        headers: this.getHeaders(),
+      }
+    );
+
+    const data = await this.handleResponse<ProcessionResponse>(response);
+    return data.data.map(migrateProcessionRoute).sort(compareByDeparture);
+  }
+
+  async getBrotherhoods(): Promise<Brotherhood[]> {
+    // TODO: Implement API call
+    const response = await fetch(
+      `${this.baseUrl}/brotherhoods`,
+      {
+        method: 'GET',
+        headers: this.getHeaders(),
+      }
+    );
+
+    const data = await this.handleResponse<BrotherhoodResponse>(response);
+    return data.data;
+  }
+
+  async getBrotherhoodById(id: string): Promise<Brotherhood> {
+    // TODO: Implement API call
+    const response = await fetch(
+      `${this.baseUrl}/brotherhoods/${id}`,
+      {
+        method: 'GET',
+        headers: this.getHeaders(),
+      }
+    );
+
+    if (response.status === 404) {
+      throw new NotFoundError('Brotherhood', id);
+    }
+
+    const data = await this.handleResponse<SingleBrotherhoodResponse>(response);
     return data.data;
   }
 
@@ -116,8 +185,12 @@ export class APIRepository implements IProcessionRepository {
       }
     );
 
+    if (response.status === 404) {
+      throw new NotFoundError('Procession', id);
+    }
+
     const data = await this.handleResponse<SingleProcessionResponse>(response);
-    return data.data;
+    return migrateProcessionRoute(data.data);
   }
 
   async create(data: CreateProcessionDto): Promise<Procession> {
@@ -132,7 +205,7 @@ export class APIRepository implements IProcessionRepository {
     );
 
     const result = await this.handleResponse<SingleProcessionResponse>(response);
-    return result.data;
+    return migrateProcessionRoute(result.data);
   }
 
   async update(data: UpdateProcessionDto): Promise<Procession> {
@@ -147,7 +220,7 @@ export class APIRepository implements IProcessionRepository {
     );
 
     const result = await this.handleResponse<SingleProcessionResponse>(response);
-    return result.data;
+    return migrateProcessionRoute(result.data);
   }
 
   async delete(id: string): Promise<void> {
@@ -170,8 +243,11 @@ export class APIRepository implements IProcessionRepository {
 
   async getActive(): Promise<Procession | null> {
     // TODO: Implement API call
-    const processions = await this.getAll({ status: 'in_progress' });
-    return processions.length > 0 ? processions[0] : null;
+    // Live status first; without it, whatever the schedule puts in the street now
+    const processions = await this.getAll();
+    return processions.find(p => p.status === 'in_progress') ??
+      processions.find(p => p.status !== 'finished' && getScheduledStatus(p) === 'in_progress') ??
+      null;
   }
 
   async getUniqueDays(): Promise<string[]> {
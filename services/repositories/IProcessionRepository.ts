@@ -8,18 +8,52 @@ import type {
   CreateProcessionDto, 
   UpdateProcessionDto,
   ProcessionFilters,
-  AppConfig 
+  AppConfig,
+  SemanaSantaEdition,
+  Brotherhood
 } from '@/types/data';
 
+/**
+ * Thrown when no procession or brotherhood has the requested id
+ * Lets callers tell a stale or mistyped link apart from a failed request.
+ */
+export class NotFoundError extends Error {
+  constructor(entity: 'Procession' | 'Brotherhood', id: string) {
+    super(`${entity} with id ${id} not found`);
+    this.name = 'NotFoundError';
+  }
+}
+
 export interface IProcessionRepository {
   /**
    * Get all processions with optional filters
    */
   getAll(filters?: ProcessionFilters): Promise<Procession[]>;
 
+  /**
+   * Get every edition there are processions for, newest first
+   */
+  getEditions(): Promise<SemanaSantaEdition[]>;
+
+  /**
+   * Get the processions of one edition, with optional filters
+   */
+  getByEdition(year: number, filters?: ProcessionFilters): Promise<Procession[]>;
+
+  /**
+   * Get every brotherhood in the directory, by name
+   */
+  getBrotherhoods(): Promise<Brotherhood[]>;
+
+  /**
+   * Get a single brotherhood by ID
+   * @throws NotFoundError if brotherhood not found
+   */
+  getBrotherhoodById(id: string): Promise<Brotherhood>;
+
   /**
    * Get a single procession by ID
-   * @throws Error if procession not found
+   * @throws NotFoundError if procession not found
    */
   getById(id: string): Promise<Procession>;
 
@@ -31,13 +65,13 @@ export interface IProcessionRepository {
 
   /**
    * Update an existing procession
-   * @throws Error if procession not found
+   * @throws NotFoundError if procession not found
    */
   update(data: UpdateProcessionDto): Promise<Procession>;
 
   /**
    * Delete a procession by ID
-   * @throws Error if procession not found
+   * @throws NotFoundError if procession not found
    */
   delete(id: string): Promise<void>;
 
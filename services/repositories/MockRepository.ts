@@ -8,21 +8,29 @@ import type {
   CreateProcessionDto, 
   UpdateProcessionDto,
   ProcessionFilters,
-  AppConfig 
+  AppConfig,
+  SemanaSantaEdition,
+  Brotherhood
 } from '@/types/data';
-import type { IProcessionRepository } from './IProcessionRepository';
+import { buildEdition, getCurrentHolyWeekYear, getHolyDayIndex, pickCurrentEdition } from '@/services/holy-week';
+import { migrateProcessionRoute, migrateRoutePoint } from '@/services/itinerary';
+import { compareByDeparture, getScheduledStatus } from '@/services/procession-schedule';
+import { NotFoundError, type IProcessionRepository } from './IProcessionRepository';
 
 // Import JSON data
 import processionsData from '@/data/processions.json';
+import brotherhoodsData from '@/data/brotherhoods.json';
 import configData from '@/data/config.json';
 
 export class MockRepository implements IProcessionRepository {
   private processions: Procession[];
+  private brotherhoods: Brotherhood[];
   private config: AppConfig;
 
   constructor() {
     // Load data from JSON files
-    this.processions = processionsData as Procession[];
+    this.processions = (processionsData as Procession[]).map(migrateProcessionRoute);
+    this.brotherhoods = brotherhoodsData as Brotherhood[];
     this.config = configData as AppConfig;
   }
 
@@ -50,12 +58,18 @@ export class MockRepository implements IProcessionRepository {
     let result = [...this.processions];
 
     if (filters) {
+      if (filters.editionYear !== undefined) {
+        result = result.filter(p => p.editionYear === filters.editionYear);
+      }
       if (filters.day) {
         result = result.filter(p => p.day === filters.day);
       }
       if (filters.status) {
         result = result.filter(p => p.status === filters.status);
       }
+      if (filters.brotherhoodId) {
+        result = result.filter(p => p.brotherhoodId === filters.brotherhoodId);
+      }
       if (filters.brotherhood) {
         result = result.filter(p => 
           p.brotherhood.toLowerCase().includes(filters.brotherhood!.toLowerCase())
@@ -63,7 +77,37 @@ export class MockRepository implements IProcessionRepository {
       }
     }
 
-    return result;
+    // Chronological: "01:00" departures after midnight come after the evening ones
+    return result.sort(compareByDeparture);
+  }
+
+  async getEditions(): Promise<SemanaSantaEdition[]> {
+    await this.delay(50);
+
+    const years = Array.from(new Set(this.processions.map(p => p.editionYear)));
+    return years.sort((a, b) => b - a).map(year => buildEdition(year));
+  }
+
+  async getByEdition(year: number, filters?: ProcessionFilters): Promise<Procession[]> {
+    return this.getAll({ ...filters, editionYear: year });
+  }
+
+  async getBrotherhoods(): Promise<Brotherhood[]> {
+    await this.delay();
+
+    return [...this.brotherhoods].sort((a, b) => a.shortName.localeCompare(b.shortName, 'es'));
+  }
+
+  async getBrotherhoodById(id: string): Promise<Brotherhood> {
+    await this.delay();
+
+    const brotherhood = this.brotherhoods.find(b => b.id === id);
+
+    if (!brotherhood) {
+      throw new NotFoundError('Brotherhood', id);
+    }
+
+    return { ...brotherhood };
   }
 
   async getById(id: string): Promise<Procession> {
@@ -72,7 +116,7 @@ export class MockRepository implements IProcessionRepository {
     const procession = this.processions.find(p => p.id === id);
     
     if (!procession) {
-      throw new Error(`Procession with id ${id} not found`);
+      throw new NotFoundError('Procession', id);
     }
     
     return { ...procession };
@@ -80,10 +124,16 @@ export class MockRepository implements IProcessionRepository {
 
   async create(data: CreateProcessionDto): Promise<Procession> {
     await this.delay(150);
+
+    // Into the edition the app follows (as DataService picks it), so it shows up right away
+    const editionYear = data.editionYear
+      ?? pickCurrentEdition(await this.getEditions())?.year
+      ?? getCurrentHolyWeekYear();
     
     const newProcession: Procession = {
-      ...data,
+      ...migrateProcessionRoute(data),
       id: this.generateId(),
+      editionYear,
       status: data.status || 'not_started',
       pasos: data.pasos.map((paso, index) => ({
         ...paso,
@@ -102,13 +152,14 @@ export class MockRepository implements IProcessionRepository {
     const index = this.processions.findIndex(p => p.id === data.id);
     
     if (index === -1) {
-      throw new Error(`Procession with id ${data.id} not found`);
+      throw new NotFoundError('Procession', data.id);
     }
     
     // Merge the updates with existing data
     const updatedProcession: Procession = {
       ...this.processions[index],
       ...data,
+      ...(data.route ? { route: data.route.map(migrateRoutePoint) } : {}),
     };
     
     this.processions[index] = updatedProcession;
@@ -122,7 +173,7 @@ export class MockRepository implements IProcessionRepository {
     const index = this.processions.findIndex(p => p.id === id);
     
     if (index === -1) {
-      throw new Error(`Procession with id ${id} not found`);
+      throw new NotFoundError('Procession', id);
     }
     
     this.processions.splice(index, 1);
@@ -131,13 +182,14 @@ export class MockRepository implements IProcessionRepository {
   async getByDay(day: string): Promise<Procession[]> {
     await this.delay();
     
-    return this.processions.filter(p => p.day === day);
+    return this.processions.filter(p => p.day === day).sort(compareByDeparture);
   }
 
   async getActive(): Promise<Procession | null> {
     await this.delay();
     
-    const active = this.processions.find(p => p.status === 'in_progress');
+    const active = this.processions.find(p => p.status === 'in_progress') ??
+      this.processions.find(p => p.status !== 'finished' && getScheduledStatus(p) === 'in_progress');
     
     return active ? { ...active } : null;
   }
@@ -146,7 +198,7 @@ export class MockRepository implements IProcessionRepository {
     await this.delay();
     
     const days = this.processions.map(p => p.day);
-    return Array.from(new Set(days));
+    return Array.from(new Set(days)).sort((a, b) => getHolyDayIndex(a) - getHolyDayIndex(b));
   }
 
   async getConfig(): Promise<AppConfig> {
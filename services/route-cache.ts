@@ -0,0 +1,125 @@
+/**
+ * Route Cache Service
+ * Persists street-following route geometry per procession in AsyncStorage
+ *
+ * Entries are keyed by procession id and store a hash of the waypoints they were
+ * computed from, so a route is fetched again only when its waypoints change.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { getProcessionRoute, type Coordinate, type RouteResult } from './routing';
+
+const ROUTE_CACHE_PREFIX = '@SemanaSanta:route:';
+
+interface CachedRoute {
+  waypointsHash: string;
+  result: RouteResult;
+  cachedAt: number;
+}
+
+// In-memory copy so screens sharing a route don't hit AsyncStorage again
+const memoryCache = new Map<string, CachedRoute>();
+
+/**
+ * Hash the waypoints of a route (FNV-1a, 32 bits)
+ * Coordinates are rounded to ~10 cm so float noise doesn't invalidate the cache
+ */
+export function hashWaypoints(waypoints: Coordinate[]): string {
+  const source = waypoints
+    .map(wp => `${wp.latitude.toFixed(6)},${wp.longitude.toFixed(6)}`)
+    .join(';');
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Get the cached route of a procession, if it was computed from these waypoints
+ */
+export async function getCachedRoute(processionId: string, waypoints: Coordinate[]): Promise<RouteResult | null> {
+  const waypointsHash = hashWaypoints(waypoints);
+
+  const inMemory = memoryCache.get(processionId);
+  if (inMemory) {
+    return inMemory.waypointsHash === waypointsHash ? inMemory.result : null;
+  }
+
+  try {
+    const stored = await AsyncStorage.getItem(ROUTE_CACHE_PREFIX + processionId);
+    if (!stored) return null;
+
+    const entry: CachedRoute = JSON.parse(stored);
+    memoryCache.set(processionId, entry);
+
+    return entry.waypointsHash === waypointsHash ? entry.result : null;
+  } catch (error) {
+    console.warn('[RouteCache] Failed to read cached route:', error);
+    return null;
+  }
+}
+
+/**
+ * Store the route of a procession together with the hash of its waypoints
+ */
+export async function saveCachedRoute(
+  processionId: string,
+  waypoints: Coordinate[],
+  result: RouteResult
+): Promise<void> {
+  const entry: CachedRoute = {
+    waypointsHash: hashWaypoints(waypoints),
+    result,
+    cachedAt: Date.now(),
+  };
+
+  memoryCache.set(processionId, entry);
+
+  try {
+    await AsyncStorage.setItem(ROUTE_CACHE_PREFIX + processionId, JSON.stringify(entry));
+  } catch (error) {
+    console.warn('[RouteCache] Failed to save route:', error);
+  }
+}
+
+/**
+ * Remove every cached route (useful for testing or forcing re-download)
+ */
+export async function clearRouteCache(): Promise<void> {
+  memoryCache.clear();
+
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(ROUTE_CACHE_PREFIX)));
+  } catch (error) {
+    console.warn('[RouteCache] Failed to clear route cache:', error);
+  }
+}
+
+/**
+ * Get the street-following route of a procession, from cache when possible
+ * Only fetches from the routing server on a cache miss or when waypoints changed
+ */
+export async function getCachedProcessionRoute(
+  processionId: string,
+  waypoints: Coordinate[]
+): Promise<RouteResult> {
+  const cached = await getCachedRoute(processionId, waypoints);
+  if (cached) {
+    return cached;
+  }
+
+  const result = await getProcessionRoute(waypoints);
+
+  // Straight-line fallbacks are cheap to rebuild; keep retrying the real router
+  if (result.provider !== 'straight_line') {
+    await saveCachedRoute(processionId, waypoints, result);
+  }
+
+  return result;
+}
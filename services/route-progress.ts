@@ -0,0 +1,199 @@
+/**
+ * Route Progress Service
+ * Map-matches the live positions of a procession (Cruz de Guía and pasos) onto
+ * its route geometry and reports how far along the route each one is
+ *
+ * Routes usually come back along some of the streets they went out by, so a
+ * position can match the route in more than one place. The schedule (pace model)
+ * decides which of those places is meant while the procession is on the street.
+ */
+
+import type { Paso, Procession } from '@/types/data';
+import {
+  cumulativeDistances,
+  findPolylinePasses,
+  haversineDistance,
+  polylineLength,
+  projectOntoPolyline,
+  slicePolyline,
+  type PolylineProjection,
+} from './geometry';
+import { getStreetAtDistance, ITINERARY_MAX_OFFSET_METERS, projectItinerary } from './itinerary';
+import { buildPaceModel, distanceAtTime, getPasoDelayMinutes } from './pace-model';
+import { getProcessionMinute } from './procession-schedule';
+import type { Coordinate } from './routing';
+
+// Live positions farther than this from the route are treated as off-route
+const SNAP_MAX_DISTANCE_METERS = 100;
+
+export type RouteLeg = 'outbound' | 'return';
+
+export interface RouteProgress {
+  coordinate: Coordinate; // Position snapped onto the route
+  offRouteDistance: number; // meters between the live position and the route
+  distanceCovered: number; // meters
+  distanceRemaining: number; // meters
+  percentage: number; // 0-100
+  leg: RouteLeg;
+  street: string | null; // Last street of the itinerary passed, if known
+}
+
+export interface ProcessionProgress {
+  cruzDeGuia: RouteProgress | null;
+  pasos: { paso: Paso; progress: RouteProgress | null }[];
+}
+
+// Route split by where the procession is now
+export interface RouteSections {
+  done: Coordinate[]; // Already walked by the whole cortejo (behind the last paso)
+  cortejo: Coordinate[]; // Street currently occupied, last paso to Cruz de Guía
+  remaining: Coordinate[]; // Still ahead of the Cruz de Guía
+  tailDistance: number; // meters along the route
+  headDistance: number;
+}
+
+/**
+ * Snap a position onto the route
+ *
+ * @param expectedDistance - Where along the route the position should be (e.g. from the
+ *   schedule); picks between candidate matches when the route passes nearby more than once
+ */
+export function snapToRoute(
+  geometry: Coordinate[],
+  position: Coordinate,
+  expectedDistance?: number
+): PolylineProjection | null {
+  const passes = findPolylinePasses(geometry, position, SNAP_MAX_DISTANCE_METERS);
+  if (passes.length === 0) {
+    return projectOntoPolyline(geometry, position);
+  }
+
+  if (expectedDistance === undefined) {
+    return passes[0];
+  }
+
+  return passes.reduce((best, pass) =>
+    Math.abs(pass.distanceAlong - expectedDistance) < Math.abs(best.distanceAlong - expectedDistance)
+      ? pass
+      : best
+  );
+}
+
+/**
+ * Distance along the route where the procession turns back towards its church:
+ * the end of the Carrera Oficial when it lies on the route, otherwise the point
+ * farthest from the start
+ */
+export function getTurnaroundDistance(procession: Procession, geometry: Coordinate[]): number {
+  const carreraEnd = projectOntoPolyline(geometry, procession.carreraOficial.end);
+  if (carreraEnd && carreraEnd.distanceToLine <= ITINERARY_MAX_OFFSET_METERS) {
+    return carreraEnd.distanceAlong;
+  }
+
+  const distances = cumulativeDistances(geometry);
+  let farthestIndex = 0;
+  let farthestDistance = 0;
+  geometry.forEach((coordinate, index) => {
+    const distance = haversineDistance(geometry[0], coordinate);
+    if (distance > farthestDistance) {
+      farthestDistance = distance;
+      farthestIndex = index;
+    }
+  });
+
+  return distances[farthestIndex] ?? 0;
+}
+
+/**
+ * Progress along the route of a live position
+ */
+export function getRouteProgress(
+  procession: Procession,
+  geometry: Coordinate[],
+  position: Coordinate,
+  expectedDistance?: number
+): RouteProgress | null {
+  if (geometry.length < 2) return null;
+
+  const snapped = snapToRoute(geometry, position, expectedDistance);
+  if (!snapped) return null;
+
+  const totalDistance = polylineLength(geometry);
+  const covered = snapped.distanceAlong;
+
+  return {
+    coordinate: snapped.coordinate,
+    offRouteDistance: snapped.distanceToLine,
+    distanceCovered: covered,
+    distanceRemaining: Math.max(0, totalDistance - covered),
+    percentage: totalDistance > 0 ? Math.round((covered / totalDistance) * 100) : 0,
+    leg: covered > getTurnaroundDistance(procession, geometry) ? 'return' : 'outbound',
+    street: getStreetAtDistance(projectItinerary(procession, geometry), covered),
+  };
+}
+
+/**
+ * Progress of the Cruz de Guía and every paso of a procession
+ * While the procession is on the street, the schedule at `now` disambiguates
+ * positions on streets the route uses twice.
+ */
+export function getProcessionProgress(
+  procession: Procession,
+  geometry: Coordinate[],
+  now: Date = new Date()
+): ProcessionProgress {
+  let expectedAt: ((delayMinutes: number) => number) | undefined;
+
+  if (procession.status === 'in_progress' || procession.status === 'returning') {
+    const model = buildPaceModel(procession, geometry);
+    const minutesOut = getProcessionMinute(procession, now) - model.departureMinute;
+    expectedAt = delayMinutes => distanceAtTime(model, minutesOut - delayMinutes);
+  }
+
+  return {
+    cruzDeGuia: getRouteProgress(procession, geometry, procession.cruzDeGuia, expectedAt?.(0)),
+    pasos: procession.pasos.map(paso => ({
+      paso,
+      progress: getRouteProgress(
+        procession,
+        geometry,
+        paso.currentPosition,
+        expectedAt?.(getPasoDelayMinutes(procession, paso))
+      ),
+    })),
+  };
+}
+
+/**
+ * Split the route at the last paso and at the Cruz de Guía
+ * Returns null when the procession couldn't be placed on the route.
+ */
+export function getRouteSections(geometry: Coordinate[], progress: ProcessionProgress): RouteSections | null {
+  const positions = [progress.cruzDeGuia, ...progress.pasos.map(p => p.progress)]
+    .filter((p): p is RouteProgress => p !== null)
+    .map(p => p.distanceCovered);
+  if (positions.length === 0) return null;
+
+  const headDistance = Math.max(...positions);
+  const tailDistance = Math.min(...positions);
+  const totalDistance = polylineLength(geometry);
+
+  return {
+    done: slicePolyline(geometry, 0, tailDistance),
+    cortejo: slicePolyline(geometry, tailDistance, headDistance),
+    remaining: slicePolyline(geometry, headDistance, totalDistance),
+    tailDistance,
+    headDistance,
+  };
+}
+
+/**
+ * Short progress label for cards: "C/ Concepción · 62% recorrido"
+ */
+export function formatRouteProgress(progress: RouteProgress): string {
+  const parts: string[] = [];
+  if (progress.street) parts.push(progress.street);
+  parts.push(`${progress.percentage}% recorrido`);
+  if (progress.leg === 'return') parts.push('de regreso');
+  return parts.join(' · ');
+}
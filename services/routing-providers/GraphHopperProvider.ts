@@ -0,0 +1,93 @@
+/**
+ * GraphHopper routing provider
+ *
+ * API Documentation: https://docs.graphhopper.com/#tag/Routing-API
+ */
+
+import { bufferPolyline } from '../geometry';
+import { decodePolyline } from '../polyline';
+import type { Coordinate, RouteOptions, RouteResult } from '../routing';
+import { AVOID_BUFFER_METERS, type RoutingProvider } from './RoutingProvider';
+
+export class GraphHopperProvider implements RoutingProvider {
+  readonly id = 'graphhopper' as const;
+  private baseUrl: string;
+  private profile: string;
+  private apiKey?: string;
+
+  constructor(baseUrl: string, profile: string = 'foot', apiKey?: string) {
+    this.baseUrl = baseUrl;
+    this.profile = profile;
+    this.apiKey = apiKey;
+  }
+
+  async getRoute(waypoints: Coordinate[], options?: RouteOptions): Promise<RouteResult> {
+    const avoid = options?.avoid ?? [];
+    const response = avoid.length > 0
+      ? await this.postRouteAvoiding(waypoints, avoid)
+      : await this.getSimpleRoute(waypoints);
+
+    if (!response.ok) {
+      throw new Error(`GraphHopper API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.paths || data.paths.length === 0) {
+      throw new Error(`GraphHopper routing failed: ${data.message || 'No route found'}`);
+    }
+
+    const path = data.paths[0];
+
+    return {
+      coordinates: decodePolyline(path.points, 5), // Encoded with GraphHopper's default multiplier, 1e5
+      distance: path.distance, // meters
+      duration: path.time / 1000, // ms -> seconds
+      provider: this.id,
+    };
+  }
+
+  private getSimpleRoute(waypoints: Coordinate[]): Promise<Response> {
+    const params = new URLSearchParams();
+    waypoints.forEach(wp => params.append('point', `${wp.latitude},${wp.longitude}`));
+    params.append('profile', this.profile);
+    params.append('points_encoded', 'true');
+    if (this.apiKey) params.append('key', this.apiKey);
+
+    return fetch(`${this.baseUrl}/route?${params.toString()}`);
+  }
+
+  /**
+   * Route with a custom model that forbids the areas around the avoided streets
+   * Custom models need the flexible mode, so contraction hierarchies are disabled.
+   */
+  private postRouteAvoiding(waypoints: Coordinate[], avoid: Coordinate[][]): Promise<Response> {
+    const features = avoid.map((line, index) => ({
+      type: 'Feature',
+      id: `avoid_${index}`,
+      properties: {},
+      geometry: {
+        type: 'Polygon',
+        coordinates: [bufferPolyline(line, AVOID_BUFFER_METERS).map(c => [c.longitude, c.latitude])],
+      },
+    }));
+
+    const request = {
+      points: waypoints.map(wp => [wp.longitude, wp.latitude]),
+      profile: this.profile,
+      points_encoded: true,
+      'ch.disable': true,
+      custom_model: {
+        priority: [{ if: features.map(feature => `in_${feature.id}`).join(' || '), multiply_by: '0' }],
+        areas: { type: 'FeatureCollection', features },
+      },
+    };
+
+    const query = this.apiKey ? `?key=${encodeURIComponent(this.apiKey)}` : '';
+    return fetch(`${this.baseUrl}/route${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+  }
+}
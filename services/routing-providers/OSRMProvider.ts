@@ -0,0 +1,70 @@
+/**
+ * OSRM routing provider
+ *
+ * API Documentation: http://project-osrm.org/docs/v5.24.0/api/
+ */
+
+import { findCrossings } from '../geometry';
+import { decodePolyline } from '../polyline';
+import type { Coordinate, RouteOptions, RouteResult } from '../routing';
+import type { RoutingProvider } from './RoutingProvider';
+
+interface OSRMRoute {
+  distance: number;
+  duration: number;
+  geometry: string; // Encoded polyline, precision 6
+}
+
+export class OSRMProvider implements RoutingProvider {
+  readonly id = 'osrm' as const;
+  private baseUrl: string;
+  private profile: string;
+
+  constructor(baseUrl: string, profile: string = 'foot') {
+    this.baseUrl = baseUrl;
+    this.profile = profile;
+  }
+
+  async getRoute(waypoints: Coordinate[], options?: RouteOptions): Promise<RouteResult> {
+    // OSRM expects coordinates as longitude,latitude (reversed from our format)
+    const coordinatesString = waypoints
+      .map(wp => `${wp.longitude},${wp.latitude}`)
+      .join(';');
+
+    // Use 'foot' profile for walking routes (processions walk)
+    // geometries=polyline6 returns the route as a compact encoded polyline
+    // overview=full returns the complete route geometry
+    // OSRM can't exclude areas: ask for alternatives and keep the first that stays clear
+    const avoid = options?.avoid ?? [];
+    const alternatives = avoid.length > 0 ? '&alternatives=3' : '';
+    const url = `${this.baseUrl}/route/v1/${this.profile}/${coordinatesString}?overview=full&geometries=polyline6${alternatives}`;
+
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      throw new Error(`OSRM API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (data.code !== 'Ok' || !data.routes || data.routes.length === 0) {
+      throw new Error(`OSRM routing failed: ${data.code || 'No routes found'}`);
+    }
+
+    const candidates = (data.routes as OSRMRoute[]).map(route => ({
+      route,
+      coordinates: decodePolyline(route.geometry, 6),
+    }));
+
+    const { route, coordinates } =
+      candidates.find(candidate => avoid.every(line => findCrossings(candidate.coordinates, line).length === 0)) ??
+      candidates[0];
+
+    return {
+      coordinates,
+      distance: route.distance, // meters
+      duration: route.duration, // seconds
+      provider: this.id,
+    };
+  }
+}
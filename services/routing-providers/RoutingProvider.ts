@@ -0,0 +1,24 @@
+/**
+ * Routing provider interface
+ * This interface defines the contract that all routing backends must follow
+ */
+
+import type { RoutingProviderId } from '@/types/data';
+import type { Coordinate, RouteOptions, RouteResult } from '../routing';
+
+// Half-width of the area around an avoided street that routes must stay out of
+export const AVOID_BUFFER_METERS = 15;
+
+export interface RoutingProvider {
+  /**
+   * Identifier reported in every RouteResult produced by this provider
+   */
+  readonly id: RoutingProviderId;
+
+  /**
+   * Get a walking route through the waypoints, in order
+   * Backends that cannot honour `options.avoid` ignore it; callers check the result.
+   * @throws Error if the backend is unreachable or cannot route the waypoints
+   */
+  getRoute(waypoints: Coordinate[], options?: RouteOptions): Promise<RouteResult>;
+}
@@ -0,0 +1,49 @@
+/**
+ * Straight-line routing provider
+ * Always available offline: joins the waypoints with straight segments,
+ * densified so the line can be matched and animated like a street route.
+ */
+
+import { haversineDistance, interpolateCoordinate } from '../geometry';
+import type { Coordinate, RouteResult } from '../routing';
+import type { RoutingProvider } from './RoutingProvider';
+
+// Typical walking speed, to stay comparable with the street routers
+const WALKING_SPEED_MPS = 5000 / 3600;
+
+export class StraightLineProvider implements RoutingProvider {
+  readonly id = 'straight_line' as const;
+  private spacing: number;
+
+  /**
+   * @param spacing - Maximum distance in meters between consecutive points
+   */
+  constructor(spacing: number = 20) {
+    this.spacing = spacing;
+  }
+
+  async getRoute(waypoints: Coordinate[]): Promise<RouteResult> {
+    const coordinates: Coordinate[] = waypoints.length > 0 ? [waypoints[0]] : [];
+    let distance = 0;
+
+    for (let i = 1; i < waypoints.length; i++) {
+      const from = waypoints[i - 1];
+      const to = waypoints[i];
+      const segmentLength = haversineDistance(from, to);
+      const steps = Math.max(1, Math.ceil(segmentLength / this.spacing));
+
+      for (let step = 1; step <= steps; step++) {
+        coordinates.push(interpolateCoordinate(from, to, step / steps));
+      }
+
+      distance += segmentLength;
+    }
+
+    return {
+      coordinates,
+      distance,
+      duration: distance / WALKING_SPEED_MPS,
+      provider: this.id,
+    };
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Valhalla routing provider
+ *
+ * API Documentation: https://valhalla.github.io/valhalla/api/turn-by-turn/api-reference/
+ */
+
+import { bufferPolyline } from '../geometry';
+import { decodePolyline } from '../polyline';
+import type { Coordinate, RouteOptions, RouteResult } from '../routing';
+import { AVOID_BUFFER_METERS, type RoutingProvider } from './RoutingProvider';
+
+export class ValhallaProvider implements RoutingProvider {
+  readonly id = 'valhalla' as const;
+  private baseUrl: string;
+  private costing: string;
+
+  constructor(baseUrl: string, costing: string = 'pedestrian') {
+    this.baseUrl = baseUrl;
+    this.costing = costing;
+  }
+
+  async getRoute(waypoints: Coordinate[], options?: RouteOptions): Promise<RouteResult> {
+    const request = {
+      locations: waypoints.map(wp => ({ lat: wp.latitude, lon: wp.longitude, type: 'through' })),
+      costing: this.costing,
+      directions_options: { units: 'kilometers' },
+      // Rings of [lon, lat] around each street to avoid
+      exclude_polygons: (options?.avoid ?? []).map(line =>
+        bufferPolyline(line, AVOID_BUFFER_METERS).map(c => [c.longitude, c.latitude])
+      ),
+    };
+
+    const response = await fetch(`${this.baseUrl}/route`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Valhalla API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.trip || data.trip.status !== 0 || !data.trip.legs?.length) {
+      throw new Error(`Valhalla routing failed: ${data.trip?.status_message || data.error || 'No route found'}`);
+    }
+
+    // Each leg carries its own shape (precision 6); consecutive legs share their joint point
+    const coordinates: Coordinate[] = [];
+    data.trip.legs.forEach((leg: { shape: string }, index: number) => {
+      const shape = decodePolyline(leg.shape, 6);
+      coordinates.push(...(index === 0 ? shape : shape.slice(1)));
+    });
+
+    return {
+      coordinates,
+      distance: data.trip.summary.length * 1000, // km -> meters
+      duration: data.trip.summary.time, // seconds
+      provider: this.id,
+    };
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Routing provider exports
+ *
+ * Centralized exports for all routing provider implementations
+ */
+
+import type { RoutingConfig } from '@/types/data';
+import { GraphHopperProvider } from './GraphHopperProvider';
+import { OSRMProvider } from './OSRMProvider';
+import type { RoutingProvider } from './RoutingProvider';
+import { StraightLineProvider } from './StraightLineProvider';
+import { ValhallaProvider } from './ValhallaProvider';
+
+export type { RoutingProvider } from './RoutingProvider';
+export { OSRMProvider } from './OSRMProvider';
+export { ValhallaProvider } from './ValhallaProvider';
+export { GraphHopperProvider } from './GraphHopperProvider';
+export { StraightLineProvider } from './StraightLineProvider';
+
+// OSRM local server
+export const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
+  provider: 'osrm',
+  baseUrl: 'http://localhost:1889',
+  profile: 'foot',
+};
+
+// Each backend's own name for walking; configs may use any of them
+const WALKING_PROFILES: Record<'osrm' | 'valhalla' | 'graphhopper', string> = {
+  osrm: 'foot',
+  valhalla: 'pedestrian',
+  graphhopper: 'foot',
+};
+
+const WALKING_ALIASES = ['foot', 'walking', 'walk', 'pedestrian'];
+
+/**
+ * Profile to send to a provider: walking aliases are translated to its own name
+ * (e.g. the default 'foot' becomes Valhalla's 'pedestrian' costing); anything else
+ * is taken as already provider-specific.
+ */
+export function getProviderProfile(
+  provider: keyof typeof WALKING_PROFILES,
+  profile: string | undefined
+): string {
+  if (!profile || WALKING_ALIASES.includes(profile)) {
+    return WALKING_PROFILES[provider];
+  }
+  return profile;
+}
+
+/**
+ * Build the provider described by the app configuration
+ */
+export function createRoutingProvider(config: RoutingConfig = DEFAULT_ROUTING_CONFIG): RoutingProvider {
+  switch (config.provider) {
+    case 'osrm':
+      return new OSRMProvider(
+        config.baseUrl ?? DEFAULT_ROUTING_CONFIG.baseUrl!,
+        getProviderProfile('osrm', config.profile)
+      );
+    case 'valhalla':
+      if (!config.baseUrl) throw new Error('Valhalla routing requires a baseUrl');
+      return new ValhallaProvider(config.baseUrl, getProviderProfile('valhalla', config.profile));
+    case 'graphhopper':
+      return new GraphHopperProvider(
+        config.baseUrl ?? 'https://graphhopper.com/api/1',
+        getProviderProfile('graphhopper', config.profile),
+        config.apiKey
+      );
+    case 'straight_line':
+      return new StraightLineProvider();
+    default:
+      throw new Error(`Unknown routing provider: ${(config as RoutingConfig).provider}`);
+  }
+}
@@ -1,26 +1,73 @@
 /**
- * OSRM Routing Service
- * Uses the free OSRM public API to calculate routes that follow real streets
- * 
- * API Documentation: http://project-osrm.org/docs/v5.24.0/api/
+ * Routing Service
+ * Calculates walking routes that follow real streets through a pluggable
+ * routing provider (OSRM, Valhalla or GraphHopper), chosen in AppConfig.routing.
+ * When the configured provider fails, routes fall back to straight lines
+ * so the map always has something to draw, even offline.
+ *
+ * There is no offline street router yet: a bundled street graph of the center
+ * is deferred until one can be generated from OpenStreetMap data (see CHANGELOG).
  */
 
+import type { RoutingProviderId } from '@/types/data';
+import { dataService } from './data-service';
+import { findCrossings } from './geometry';
+import {
+  StraightLineProvider,
+  createRoutingProvider,
+  type RoutingProvider,
+} from './routing-providers';
+
 export interface Coordinate {
   latitude: number;
   longitude: number;
 }
 
+export interface RouteOptions {
+  avoid?: Coordinate[][]; // Streets (polylines) the route must not use or cross
+}
+
 export interface RouteResult {
   coordinates: Coordinate[];
   distance: number; // in meters
   duration: number; // in seconds
+  provider: RoutingProviderId; // Which provider produced the geometry
+}
+
+export interface SpectatorRouteResult extends RouteResult {
+  crossings: Coordinate[]; // Where the route still crosses an occupied street; empty when clear
+}
+
+const fallbackProvider = new StraightLineProvider();
+let activeProvider: RoutingProvider | null = null;
+
+/**
+ * Override the routing provider (useful for testing or switching at runtime)
+ */
+export function setRoutingProvider(provider: RoutingProvider): void {
+  activeProvider = provider;
 }
 
-// OSRM local server
-const OSRM_BASE_URL = 'http://localhost:1889';
+/**
+ * Get the provider configured in AppConfig, created on first use
+ */
+async function getActiveProvider(): Promise<RoutingProvider> {
+  if (!activeProvider) {
+    try {
+      const config = await dataService.getConfig();
+      activeProvider = createRoutingProvider(config.routing);
+    } catch (error) {
+      console.warn('Invalid routing configuration, using defaults:', error);
+      activeProvider = createRoutingProvider();
+    }
+  }
+  return activeProvider;
+}
 
 /**
- * Fetches a walking route from OSRM that follows real streets
+ * Fetches a walking route that follows real streets
+ * Falls back to straight lines between waypoints if the provider fails;
+ * check `provider` on the result to tell them apart.
  * 
  * @param waypoints - Array of coordinates (at least 2 points: start and end)
  * @returns Route coordinates that follow streets, plus distance/duration
@@ -30,47 +77,13 @@ export async function getRoute(waypoints: Coordinate[]): Promise<RouteResult> {
     throw new Error('At least 2 waypoints are required');
   }
 
-  // OSRM expects coordinates as longitude,latitude (reversed from our format)
-  const coordinatesString = waypoints
-    .map(wp => `${wp.longitude},${wp.latitude}`)
-    .join(';');
-
-  // Use 'foot' profile for walking routes (processions walk)
-  // geometries=geojson returns the route as GeoJSON coordinates
-  // overview=full returns the complete route geometry
-  const url = `${OSRM_BASE_URL}/route/v1/foot/${coordinatesString}?overview=full&geometries=geojson`;
+  const provider = await getActiveProvider();
 
   try {
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      throw new Error(`OSRM API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    if (data.code !== 'Ok' || !data.routes || data.routes.length === 0) {
-      throw new Error(`OSRM routing failed: ${data.code || 'No routes found'}`);
-    }
-
-    const route = data.routes[0];
-    
-    // Convert GeoJSON coordinates [lng, lat] to our format {latitude, longitude}
-    const coordinates: Coordinate[] = route.geometry.coordinates.map(
-      (coord: [number, number]) => ({
-        latitude: coord[1],
-        longitude: coord[0],
-      })
-    );
-
-    return {
-      coordinates,
-      distance: route.distance, // meters
-      duration: route.duration, // seconds
-    };
+    return await provider.getRoute(waypoints);
   } catch (error) {
-    console.error('OSRM routing error:', error);
-    throw error;
+    console.warn(`Routing with ${provider.id} failed, using straight lines:`, error);
+    return fallbackProvider.getRoute(waypoints);
   }
 }
 
@@ -85,6 +98,35 @@ export async function getProcessionRoute(waypoints: Coordinate[]): Promise<Route
   return getRoute(waypoints);
 }
 
+/**
+ * Walking directions for a spectator that keep clear of the streets a cortejo occupies
+ * The provider is asked to avoid those streets, and the result is checked
+ * afterwards since not every backend can: `crossings` lists where it couldn't.
+ *
+ * @param occupied - Occupied stretches of street (see services/occupancy)
+ */
+export async function getSpectatorRoute(
+  from: Coordinate,
+  to: Coordinate,
+  occupied: Coordinate[][]
+): Promise<SpectatorRouteResult> {
+  const provider = await getActiveProvider();
+  let result: RouteResult;
+
+  try {
+    result = await provider.getRoute([from, to], { avoid: occupied });
+  } catch (error) {
+    // E.g. the start or the destination is itself inside an avoided area
+    console.warn(`Routing around occupied streets with ${provider.id} failed:`, error);
+    result = await getRoute([from, to]);
+  }
+
+  return {
+    ...result,
+    crossings: occupied.flatMap(line => findCrossings(result.coordinates, line)),
+  };
+}
+
 /**
  * Formats distance for display
  */
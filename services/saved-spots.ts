@@ -0,0 +1,42 @@
+/**
+ * Saved Spots Service
+ * The spectator's saved viewing spots ("my corner"), persisted in AsyncStorage
+ *
+ * Screens go through useSavedSpots; notifications read them here to warn
+ * when a procession is about to pass by.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const SAVED_SPOTS_KEY = '@SemanaSanta:savedSpots';
+
+export interface SavedSpot {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Load the saved spots (none if storage can't be read)
+ */
+export async function loadSavedSpots(): Promise<SavedSpot[]> {
+  try {
+    const stored = await AsyncStorage.getItem(SAVED_SPOTS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn('[SavedSpots] Failed to load saved spots:', error);
+    return [];
+  }
+}
+
+/**
+ * Replace the saved spots
+ */
+export async function storeSavedSpots(spots: SavedSpot[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(SAVED_SPOTS_KEY, JSON.stringify(spots));
+  } catch (error) {
+    console.warn('[SavedSpots] Failed to save spots:', error);
+  }
+}
@@ -32,6 +32,12 @@ export const TILE_CACHE_CONFIG = {
   
   // Subdomains for load balancing
   subdomains: ['a', 'b', 'c', 'd'],
+  
+  // OSM only serves the a, b and c subdomains
+  fallbackSubdomains: ['a', 'b', 'c'],
+  
+  attribution: '© OpenStreetMap contributors © CARTO',
+  maxZoom: 19,
 };
 
 /**
@@ -150,9 +156,8 @@ export function generateTileCacheJS(): string {
     // ============================================
     
     L.TileLayer.Cached = L.TileLayer.extend({
-      _loadTile: function(tile, coords) {
+      _loadTile: function(tile, coords, done) {
         const self = this;
-        const key = coords.z + '/' + coords.x + '/' + coords.y;
         
         // Try to get from cache first
         TileCache.getTile(coords.z, coords.x, coords.y)
@@ -160,29 +165,41 @@ export function generateTileCacheJS(): string {
             if (cachedBlob) {
               // Cache hit - use cached tile
               const url = URL.createObjectURL(cachedBlob);
-              tile.src = url;
               tile.onload = function() {
                 URL.revokeObjectURL(url);
-                self._tileOnLoad.call(self, null, tile);
+                self._tileOnLoad(done, tile);
               };
               tile.onerror = function() {
                 URL.revokeObjectURL(url);
-                self._fetchAndCacheTile(tile, coords);
+                self._fetchAndCacheTile(tile, coords, done, self.getTileUrl(coords));
               };
+              tile.src = url;
             } else {
               // Cache miss - fetch from network
-              self._fetchAndCacheTile(tile, coords);
+              self._fetchAndCacheTile(tile, coords, done, self.getTileUrl(coords));
             }
           })
           .catch(() => {
             // IndexedDB error - fetch directly
-            self._fetchAndCacheTile(tile, coords);
+            self._fetchAndCacheTile(tile, coords, done, self.getTileUrl(coords));
           });
       },
       
-      _fetchAndCacheTile: function(tile, coords) {
+      // Build the URL of a tile on the fallback server, if one is configured
+      _getFallbackUrl: function(coords) {
+        if (!this.options.fallbackUrl) return null;
+        
+        const subdomains = this.options.fallbackSubdomains || this.options.subdomains;
+        return L.Util.template(this.options.fallbackUrl, {
+          s: subdomains[Math.abs(coords.x + coords.y) % subdomains.length],
+          z: coords.z,
+          x: coords.x,
+          y: coords.y
+        });
+      },
+      
+      _fetchAndCacheTile: function(tile, coords, done, url) {
         const self = this;
-        const url = this.getTileUrl(coords);
         
         fetch(url)
           .then(response => {
@@ -196,15 +213,22 @@ export function generateTileCacheJS(): string {
             
             // Display tile
             const objectUrl = URL.createObjectURL(blob);
-            tile.src = objectUrl;
             tile.onload = function() {
               URL.revokeObjectURL(objectUrl);
-              self._tileOnLoad.call(self, null, tile);
+              self._tileOnLoad(done, tile);
             };
+            tile.src = objectUrl;
           })
           .catch(err => {
+            // Primary server failed - retry once against the fallback server
+            const fallbackUrl = self._getFallbackUrl(coords);
+            if (fallbackUrl && url !== fallbackUrl) {
+              self._fetchAndCacheTile(tile, coords, done, fallbackUrl);
+              return;
+            }
+            
             console.warn('[TileCache] Failed to fetch tile:', err);
-            self._tileOnError.call(self, err, tile, coords);
+            self._tileOnError(done, tile, err);
           });
       },
       
@@ -213,14 +237,7 @@ export function generateTileCacheJS(): string {
         tile.alt = '';
         tile.setAttribute('role', 'presentation');
         
-        tile.onload = L.bind(this._tileOnLoad, this, done, tile);
-        tile.onerror = L.bind(this._tileOnError, this, done, tile);
-        
-        if (this.options.crossOrigin || this.options.crossOrigin === '') {
-          tile.crossOrigin = this.options.crossOrigin === true ? '' : this.options.crossOrigin;
-        }
-        
-        this._loadTile(tile, coords);
+        this._loadTile(tile, coords, done);
         
         return tile;
       }
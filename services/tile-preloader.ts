@@ -63,12 +63,15 @@ export function generateTilePreloaderJS(): string {
           detail: this.progress
         }));
         
-        // Also post message for WebView communication
+        // Also post message for WebView (native) or parent window (web iframe)
+        const message = JSON.stringify({
+          type: 'preloadProgress',
+          progress: this.progress
+        });
         if (window.ReactNativeWebView) {
-          window.ReactNativeWebView.postMessage(JSON.stringify({
-            type: 'preloadProgress',
-            progress: this.progress
-          }));
+          window.ReactNativeWebView.postMessage(message);
+        } else if (window.parent && window.parent !== window) {
+          window.parent.postMessage(message, '*');
         }
       },
       
@@ -4,10 +4,20 @@
  */
 
 // Base data types
+export type RoutePointKind =
+  | 'salida' // Leaves the church
+  | 'carrera_oficial' // Official route (Carrera Oficial)
+  | 'entrada' // Returns to the church
+  | 'calle' // Notable street or square along the way
+  | 'visita'; // Visit to another church or convent
+
 export interface RoutePoint {
   latitude: number;
   longitude: number;
-  name: string;
+  name: string; // Display label, without the time
+  time?: string; // Scheduled time "HH:mm", when the itinerary gives one
+  kind?: RoutePointKind;
+  street?: string;
 }
 
 export interface Paso {
@@ -18,13 +28,52 @@ export interface Paso {
     latitude: number;
     longitude: number;
   };
+  delayMinutes?: number; // Minutes the paso passes any point after the Cruz de Guía
+}
+
+// Day of Holy Week a procession goes out (dates come from services/holy-week)
+export type HolyDay =
+  | 'Domingo de Ramos'
+  | 'Lunes Santo'
+  | 'Martes Santo'
+  | 'Miércoles Santo'
+  | 'Jueves Santo'
+  | 'Viernes Santo'
+  | 'Sábado Santo'
+  | 'Domingo de Resurrección';
+
+// One year's Semana Santa, which processions belong to
+export interface SemanaSantaEdition {
+  year: number; // Identifies the edition
+  startDate: string; // Palm Sunday, "YYYY-MM-DD"
+  endDate: string; // Easter Sunday, "YYYY-MM-DD"
+  status: 'upcoming' | 'in_progress' | 'finished';
+}
+
+// Colour of the brotherhood's habit (túnica, capa, antifaz...)
+export interface BrotherhoodColor {
+  name: string; // e.g. "Túnica blanca"
+  hex: string;
+}
+
+export interface Brotherhood {
+  id: string;
+  name: string; // Full name, "Hermandad de..."
+  shortName: string; // Popular name, e.g. "El Cautivo"
+  sede: string; // Parish or chapel where the brotherhood is based
+  titulares: string[]; // Sacred images the brotherhood venerates
+  colors: BrotherhoodColor[];
+  foundedYear?: number;
+  history: string;
 }
 
 export interface Procession {
   id: string;
+  editionYear: number; // SemanaSantaEdition the itinerary and times belong to
   name: string;
-  brotherhood: string;
-  day: string;
+  brotherhood: string; // Display name, as published for this edition
+  brotherhoodId: string; // Brotherhood that goes out
+  day: string; // A HolyDay; kept as a string so unknown values from the API still load
   departureTime: string;
   returnTime: string;
   parish: string;
@@ -43,6 +92,15 @@ export interface Procession {
 }
 
 // Configuration types
+export type RoutingProviderId = 'osrm' | 'valhalla' | 'graphhopper' | 'straight_line';
+
+export interface RoutingConfig {
+  provider: RoutingProviderId;
+  baseUrl?: string;
+  apiKey?: string;
+  profile?: string; // Walking profile; 'foot' maps to each provider's own name, others pass through
+}
+
 export interface AppConfig {
   huelvaCenter: {
     latitude: number;
@@ -50,12 +108,15 @@ export interface AppConfig {
   };
   brotherhoodColors: string[];
   darkRouteColors: string[];
+  routing?: RoutingConfig;
 }
 
 // DTO types for CRUD operations
 export interface CreateProcessionDto {
+  editionYear?: number; // Defaults to the current edition
   name: string;
   brotherhood: string;
+  brotherhoodId: string;
   day: string;
   departureTime: string;
   returnTime: string;
@@ -78,6 +139,7 @@ export interface UpdateProcessionDto {
   id: string;
   name?: string;
   brotherhood?: string;
+  brotherhoodId?: string;
   day?: string;
   departureTime?: string;
   returnTime?: string;
@@ -108,6 +170,15 @@ export interface SingleProcessionResponse {
   data: Procession;
 }
 
+export interface BrotherhoodResponse {
+  data: Brotherhood[];
+  total: number;
+}
+
+export interface SingleBrotherhoodResponse {
+  data: Brotherhood;
+}
+
 export interface ApiError {
   code: string;
   message: string;
@@ -116,9 +187,11 @@ export interface ApiError {
 
 // Filter and query types
 export interface ProcessionFilters {
+  editionYear?: number;
   day?: string;
   status?: Procession['status'];
   brotherhood?: string;
+  brotherhoodId?: string;
 }
 
 export interface ProcessionQuery extends ProcessionFilters {